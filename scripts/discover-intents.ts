@@ -0,0 +1,38 @@
+/**
+ * Discover candidate intents in the ticket corpus
+ *
+ * Clusters data/tickets.json and lists the clusters the NATPAT intent catalog
+ * does not cover, with keywords, counts and example messages. Pass a path
+ * to also write the candidates as JSON for review.
+ *
+ * Usage: npm run discover:intents [-- path/to/candidates.json]
+ */
+
+import { writeFileSync } from 'fs';
+import { loadTickets } from '../src/data/tickets';
+import { discoverIntents } from '../src/meta/intent-extractor/discovery';
+import { NATPAT_INTENT_CATALOG } from '../src/brands/natpat';
+
+function main() {
+  const tickets = loadTickets();
+  const candidates = discoverIntents(tickets, { catalog: NATPAT_INTENT_CATALOG });
+
+  console.log(`→ ${candidates.length} candidate intent(s) in ${tickets.length} tickets\n`);
+
+  for (const candidate of candidates) {
+    console.log(`${candidate.id} — ${candidate.count} tickets (${(candidate.share * 100).toFixed(0)}%), ${(candidate.novelty * 100).toFixed(0)}% uncovered, nearest ${candidate.nearestIntent}`);
+    console.log(`  Keywords: ${candidate.keywords.join(', ')}`);
+    for (const example of candidate.examples.slice(0, 3)) {
+      console.log(`  • ${example.replace(/\s+/g, ' ')}`);
+    }
+    console.log('');
+  }
+
+  const outputPath = process.argv[2];
+  if (outputPath) {
+    writeFileSync(outputPath, JSON.stringify(candidates, null, 2));
+    console.log(`✓ Candidates written to ${outputPath}`);
+  }
+}
+
+main();
@@ -14,6 +14,8 @@ import { MASRuntime } from '../src/mas/runtime';
 import { memoryStore } from '../src/mas/memory';
 import { classifyMessage } from '../src/meta/intent-extractor';
 import { createMockServer } from '../src/api/mock-lookfor';
+import { createLLMClient } from '../src/mas/agents/executor';
+import { cassetteFromEnv } from '../src/mas/agents/cassette';
 import http from 'http';
 
 interface TestScenario {
@@ -223,7 +225,9 @@ async function runEvaluation(): Promise<Metrics> {
 
   try {
     const { config } = buildDefaultMAS('natpat');
-    const llmClient = createTestLLMClient();
+    // LLM_CASSETTE evaluates recorded provider answers instead of the simulated client
+    const cassette = cassetteFromEnv(createLLMClient);
+    const llmClient = cassette ?? createTestLLMClient();
     const runtime = new MASRuntime(config, llmClient);
 
     for (const scenario of scenarios) {
@@ -296,6 +300,11 @@ async function runEvaluation(): Promise<Metrics> {
       console.log(`  Latency: ${latencyMs}ms`);
       console.log(`  ${result.details}`);
     }
+
+    if (cassette) {
+      const { hits, misses, recorded } = cassette.stats();
+      console.log(`\n[Cassette] ${hits} replayed, ${misses} missed, ${recorded} recorded`);
+    }
   } finally {
     if (mockServer) {
       mockServer.close();
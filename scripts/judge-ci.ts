@@ -10,6 +10,7 @@
  * Usage:
  *   npm run judge:ci          # Single run
  *   npm run judge:ci -- --loop # Continuous loop
+ *   LLM_CASSETTE=cassettes/judge-ci.json LLM_CASSETTE_STRICT=true npm run judge:ci  # Replay recorded LLM answers
  */
 
 import 'dotenv/config';
@@ -21,6 +22,7 @@ import { tracer } from '../src/mas/tracing';
 import { classifyMessage } from '../src/meta/intent-extractor';
 import { resetToolClient } from '../src/mas/tools/client';
 import { LLMClient, createLLMClient } from '../src/mas/agents/executor';
+import { cassetteFromEnv } from '../src/mas/agents/cassette';
 import * as http from 'http';
 
 // Mock LLM client for testing without API key
@@ -52,6 +54,10 @@ function createMockLLMClient(): LLMClient {
 }
 
 function getLLMClient(): LLMClient {
+  // LLM_CASSETTE replays recorded provider answers (LLM_CASSETTE_MODE=record refreshes them)
+  const cassette = cassetteFromEnv(createLLMClient);
+  if (cassette) return cassette;
+
   try {
     return createLLMClient();
   } catch {
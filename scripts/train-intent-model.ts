@@ -0,0 +1,73 @@
+/**
+ * Train the statistical intent classifier
+ *
+ * Sources: labeled tickets (data/ticket-labels.json), simulation scenario
+ * inputs and the NATPAT intent catalog's keywords. Examples labeled with an
+ * intent the catalog does not define are skipped. Writes the model to INTENT_MODEL_PATH
+ * (default .mas/intent-model.json) or the path given as first argument.
+ *
+ * Usage: npm run train:intents [-- path/to/model.json]
+ */
+
+import { loadTickets, loadTicketLabels } from '../src/data/tickets';
+import { intentKeywordExamples } from '../src/meta/intent-extractor';
+import { NaiveBayesIntentClassifier, LabeledExample, ticketExamples } from '../src/meta/intent-extractor/classifier';
+import { getAllScenarios } from '../src/mas/simulation/scenarios';
+import { NATPAT_INTENT_CATALOG } from '../src/brands/natpat';
+
+// Scenario labels that differ from the intent catalog names
+const SCENARIO_INTENTS: Record<string, string> = {
+  ESCALATION: 'ESCALATION_REQUEST',
+  ORDER_MODIFY: 'SHIPPING_ADDRESS',
+  PRODUCT_INFO: 'PRODUCT_INQUIRY',
+  SUBSCRIPTION_MODIFY: 'SUBSCRIPTION_INQUIRY',
+  GENERAL: 'GENERAL_INQUIRY'
+};
+
+function scenarioExamples(): LabeledExample[] {
+  return getAllScenarios()
+    .flatMap(s => s.inputs)
+    .filter(input => input.expectedIntent && input.expectedIntent !== 'UNCLEAR' && input.customerMessage.trim())
+    .map(input => ({
+      text: input.customerMessage,
+      intent: SCENARIO_INTENTS[input.expectedIntent!] || input.expectedIntent!
+    }));
+}
+
+function main() {
+  const modelPath = process.argv[2] || process.env.INTENT_MODEL_PATH || '.mas/intent-model.json';
+
+  const catalog = NATPAT_INTENT_CATALOG;
+  const inCatalog = (example: LabeledExample) => example.intent in catalog.intents;
+
+  const allTickets = ticketExamples(loadTickets(), loadTicketLabels());
+  const allScenarios = scenarioExamples();
+  const skipped = [...allTickets, ...allScenarios].filter(e => !inCatalog(e));
+  const tickets = allTickets.filter(inCatalog);
+  const scenarios = allScenarios.filter(inCatalog);
+  const keywords = intentKeywordExamples(catalog);
+  const examples = [...tickets, ...scenarios, ...keywords];
+
+  console.log(`→ Intent catalog: ${catalog.brand}@${catalog.version}`);
+  console.log(`→ Training on ${examples.length} examples (${tickets.length} tickets, ${scenarios.length} scenario inputs, ${keywords.length} keywords)`);
+  if (skipped.length > 0) {
+    const intents = [...new Set(skipped.map(e => e.intent))].join(', ');
+    console.log(`→ Skipped ${skipped.length} examples labeled outside the catalog (${intents})`);
+  }
+
+  const classifier = NaiveBayesIntentClassifier.train(examples);
+  const report = classifier.getReport();
+
+  console.log(`→ Features: ${report.features}`);
+  console.log(`→ Cross-validated accuracy: ${(report.crossValidatedAccuracy * 100).toFixed(1)}%`);
+  console.log(`→ Calibration temperature: ${report.temperature}`);
+  console.log('→ Examples per intent:');
+  for (const [intent, count] of Object.entries(report.classes)) {
+    console.log(`    ${intent.padEnd(22)} ${count}`);
+  }
+
+  classifier.save(modelPath);
+  console.log(`\n✓ Model written to ${modelPath}`);
+}
+
+main();
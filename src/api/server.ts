@@ -2,9 +2,22 @@
  * API Server — HTTP interface for MAS
  *
  * Endpoints:
- * - POST /session/start — Start new email session
+ * - POST /session/start — Start new email session (or resume by threadId)
+ * - GET /thread/:threadId — Find session for an email thread
  * - POST /session/:id/message — Send message
+ * - POST /inbound/email — Ingest raw MIME email
+ * - GET /session/:id/email — Render last reply as outbound email
+ * - GET /customer/:id/profile — Cross-session customer profile
+ * - POST /session/:id/resolve|reopen|archive — Session lifecycle
+ * - POST /sessions/expire — Expire inactive sessions
+ * - POST /session/:id/claim|human-reply|release — Human takeover
+ * - GET /escalations — Escalation queue in work order
+ * - POST /escalations/:id/assign|claim|complete — Work a queued escalation
+ * - GET /intents — Intent catalog (versioned with the MAS config)
+ * - PUT|DELETE /intents/:id — Edit a catalog intent
  * - GET /session/:id/trace — Get session trace
+ * - GET /session/:id/routing — Routing decisions with rule scores
+ * - GET /session/:id/stream — Live events over Server-Sent Events
  * - GET /health — Health check
  */
 
@@ -12,14 +25,20 @@
 import 'dotenv/config';
 
 import { MASRuntime, SessionStartParams } from '../mas/runtime';
+import { RESOLUTION_OUTCOMES, ResolutionOutcome, SessionStatus } from '../mas/memory';
+import { EscalationItemStatus } from '../mas/escalation';
 import { createSimulationRouter, createJudgeRouter } from './simulation';
 import { simulationEngine } from '../mas/simulation';
 import { getAllScenarios } from '../mas/simulation/scenarios';
 import { judgeTeam } from '../mas/judge';
 import { MASConfig } from '../meta/agent-generator';
+import { IntentConfig } from '../meta/intent-extractor/catalog';
 import { buildDefaultMAS } from '../meta/mas-builder';
 import { buildNATPATMAS } from '../brands/natpat';
 
+// Interval for SSE keep-alive comments
+const SSE_KEEPALIVE_MS = 15000;
+
 // Simple HTTP handler types
 type Handler = (req: Request) => Promise<Response>;
 
@@ -52,8 +71,29 @@ export class APIServer {
       pattern: /^\/session\/start$/,
       handler: async (req) => {
         const body = await req.json() as SessionStartParams;
-        const sessionId = this.runtime.startSession(body);
-        return this.json({ success: true, sessionId });
+        const { sessionId, resumed } = this.runtime.startOrResumeSession(body);
+        return this.json({ success: true, sessionId, resumed });
+      }
+    });
+
+    // Find session by email thread
+    this.routes.push({
+      method: 'GET',
+      pattern: /^\/thread\/([^/]+)$/,
+      handler: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/thread\/([^/]+)$/);
+        const threadId = match ? decodeURIComponent(match[1]) : undefined;
+
+        if (!threadId) {
+          return this.json({ success: false, error: 'Thread ID required' }, 400);
+        }
+
+        const session = this.runtime.findSessionByThread(threadId);
+        if (!session) {
+          return this.json({ success: false, error: `No session for thread: ${threadId}` }, 404);
+        }
+        return this.json({ success: true, sessionId: session.id, status: session.status });
       }
     });
 
@@ -83,6 +123,62 @@ export class APIServer {
       }
     });
 
+    // Ingest raw email (RFC 5322 / MIME) from the mail pipeline
+    this.routes.push({
+      method: 'POST',
+      pattern: /^\/inbound\/email$/,
+      handler: async (req) => {
+        const contentType = req.headers.get('content-type') || '';
+        const raw = contentType.includes('application/json')
+          ? (await req.json() as { raw?: string }).raw
+          : await req.text();
+
+        if (!raw) {
+          return this.json({ success: false, error: 'Raw email required' }, 400);
+        }
+
+        try {
+          const response = await this.runtime.handleInboundEmail(raw);
+          return this.json({ success: true, ...response });
+        } catch (error) {
+          return this.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, 400);
+        }
+      }
+    });
+
+    // Render reply as outbound email (?format=raw for SMTP-ready MIME)
+    this.routes.push({
+      method: 'GET',
+      pattern: /^\/session\/([^/]+)\/email$/,
+      handler: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/session\/([^/]+)\/email$/);
+        const sessionId = match?.[1];
+
+        if (!sessionId) {
+          return this.json({ success: false, error: 'Session ID required' }, 400);
+        }
+
+        try {
+          const email = this.runtime.renderReplyEmail(sessionId);
+          if (url.searchParams.get('format') === 'raw') {
+            return new Response(email.raw, {
+              headers: { 'Content-Type': 'message/rfc822' }
+            });
+          }
+          return this.json({ success: true, email });
+        } catch (error) {
+          return this.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, 404);
+        }
+      }
+    });
+
     // Get trace (Requirement 3)
     this.routes.push({
       method: 'GET',
@@ -106,6 +202,81 @@ export class APIServer {
       }
     });
 
+    // Get routing decisions (why each agent was picked)
+    this.routes.push({
+      method: 'GET',
+      pattern: /^\/session\/([^/]+)\/routing$/,
+      handler: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/session\/([^/]+)\/routing$/);
+        const sessionId = match?.[1];
+
+        if (!sessionId) {
+          return this.json({ success: false, error: 'Session ID required' }, 400);
+        }
+        const decisions = this.runtime.getRoutingDecisions(sessionId);
+        return this.json({ success: true, sessionId, count: decisions.length, decisions });
+      }
+    });
+
+    // Live session events (routing, tool calls, reply tokens) over Server-Sent Events
+    this.routes.push({
+      method: 'GET',
+      pattern: /^\/session\/([^/]+)\/stream$/,
+      handler: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/session\/([^/]+)\/stream$/);
+        const sessionId = match?.[1];
+
+        if (!sessionId) {
+          return this.json({ success: false, error: 'Session ID required' }, 400);
+        }
+
+        const encoder = new TextEncoder();
+        let stop: (() => void) | undefined;
+        try {
+          const stream = new ReadableStream<Uint8Array>({
+            start: (controller) => {
+              const send = (event: string, data: unknown) =>
+                controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+              const unsubscribe = this.runtime.subscribe(sessionId, event => send(event.type, event));
+              // Comment lines keep proxies from closing an idle connection
+              const keepAlive = setInterval(() => controller.enqueue(encoder.encode(': ping\n\n')), SSE_KEEPALIVE_MS);
+              stop = () => {
+                clearInterval(keepAlive);
+                unsubscribe();
+              };
+              req.signal.addEventListener('abort', () => {
+                stop?.();
+                try {
+                  controller.close();
+                } catch {
+                  // Already cancelled by the reader
+                }
+              });
+
+              send('ready', { sessionId });
+            },
+            cancel: () => stop?.()
+          });
+
+          return new Response(stream, {
+            headers: {
+              'Content-Type': 'text/event-stream',
+              'Cache-Control': 'no-cache',
+              'Connection': 'keep-alive'
+            }
+          });
+        } catch (error) {
+          return this.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, 404);
+        }
+      }
+    });
+
     // Get session summary
     this.routes.push({
       method: 'GET',
@@ -123,12 +294,180 @@ export class APIServer {
       }
     });
 
-    // List active sessions
+    // Get customer profile (by email or Shopify customer ID)
     this.routes.push({
       method: 'GET',
-      pattern: /^\/sessions$/,
+      pattern: /^\/customer\/([^/]+)\/profile$/,
+      handler: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/customer\/([^/]+)\/profile$/);
+        const customerKey = match ? decodeURIComponent(match[1]) : undefined;
+
+        if (!customerKey) {
+          return this.json({ success: false, error: 'Customer email or ID required' }, 400);
+        }
+
+        const profile = this.runtime.getCustomerProfile(customerKey);
+        if (!profile) {
+          return this.json({ success: false, error: `No profile for customer: ${customerKey}` }, 404);
+        }
+        return this.json({ success: true, profile });
+      }
+    });
+
+    // Session lifecycle: resolve with outcome, reopen, archive
+    this.routes.push({
+      method: 'POST',
+      pattern: /^\/session\/([^/]+)\/(resolve|reopen|archive)$/,
+      handler: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/session\/([^/]+)\/(resolve|reopen|archive)$/);
+        const sessionId = match?.[1];
+        const action = match?.[2];
+
+        if (!sessionId) {
+          return this.json({ success: false, error: 'Session ID required' }, 400);
+        }
+
+        const body = await req.json().catch(() => ({})) as { outcome?: string; note?: string; reason?: string };
+        if (action === 'resolve' && !RESOLUTION_OUTCOMES.includes(body.outcome as ResolutionOutcome)) {
+          return this.json({ success: false, error: `Outcome must be one of: ${RESOLUTION_OUTCOMES.join(', ')}` }, 400);
+        }
+
+        try {
+          const transition = action === 'resolve'
+            ? this.runtime.resolveSession(sessionId, body.outcome as ResolutionOutcome, body.note)
+            : action === 'reopen'
+              ? this.runtime.reopenSession(sessionId, body.reason || 'reopened by agent')
+              : this.runtime.archiveSession(sessionId);
+          return this.json({ success: true, sessionId, ...transition });
+        } catch (error) {
+          return this.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, 409);
+        }
+      }
+    });
+
+    // Human takeover: claim an escalated session, reply in-thread, release back to the MAS
+    this.routes.push({
+      method: 'POST',
+      pattern: /^\/session\/([^/]+)\/(claim|human-reply|release)$/,
+      handler: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/session\/([^/]+)\/(claim|human-reply|release)$/);
+        const sessionId = match?.[1];
+        const action = match?.[2];
+
+        if (!sessionId) {
+          return this.json({ success: false, error: 'Session ID required' }, 400);
+        }
+
+        const body = await req.json().catch(() => ({})) as { agent?: unknown; message?: unknown; note?: unknown };
+        const agent = typeof body.agent === 'string' ? body.agent.trim() : '';
+        const message = typeof body.message === 'string' ? body.message.trim() : '';
+        if (!agent) {
+          return this.json({ success: false, error: 'Human agent name required' }, 400);
+        }
+        if (action === 'human-reply' && !message) {
+          return this.json({ success: false, error: 'Message required' }, 400);
+        }
+        if (body.note !== undefined && typeof body.note !== 'string') {
+          return this.json({ success: false, error: 'Note must be a string' }, 400);
+        }
+
+        try {
+          if (action === 'claim') {
+            this.runtime.claimSession(sessionId, agent);
+            return this.json({ success: true, sessionId, humanAgent: agent });
+          }
+          if (action === 'human-reply') {
+            this.runtime.postHumanReply(sessionId, agent, message);
+            return this.json({ success: true, sessionId });
+          }
+          const transition = this.runtime.releaseSession(sessionId, agent, body.note || '');
+          return this.json({ success: true, sessionId, ...transition });
+        } catch (error) {
+          return this.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, 409);
+        }
+      }
+    });
+
+    // Escalation queue (pending first, by priority score, then SLA deadline)
+    this.routes.push({
+      method: 'GET',
+      pattern: /^\/escalations$/,
+      handler: async (req) => {
+        const status = new URL(req.url).searchParams.get('status') as EscalationItemStatus | null;
+        const escalations = this.runtime.getEscalations(status || undefined);
+        const now = Date.now();
+        return this.json({
+          success: true,
+          count: escalations.length,
+          escalations: escalations.map(e => ({
+            ...e,
+            slaBreached: e.status !== 'completed' && Date.parse(e.slaDueAt) < now
+          }))
+        });
+      }
+    });
+
+    // Work a queued escalation: assign to a human, claim it, complete it
+    this.routes.push({
+      method: 'POST',
+      pattern: /^\/escalations\/([^/]+)\/(assign|claim|complete)$/,
+      handler: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/escalations\/([^/]+)\/(assign|claim|complete)$/);
+        const itemId = match?.[1];
+        const action = match?.[2];
+
+        if (!itemId) {
+          return this.json({ success: false, error: 'Escalation ID required' }, 400);
+        }
+
+        const body = await req.json().catch(() => ({})) as { agent?: string; note?: string };
+        if (!body.agent) {
+          return this.json({ success: false, error: 'Human agent name required' }, 400);
+        }
+
+        try {
+          const escalation = action === 'assign'
+            ? this.runtime.assignEscalation(itemId, body.agent)
+            : action === 'claim'
+              ? this.runtime.claimEscalation(itemId, body.agent)
+              : this.runtime.completeEscalation(itemId, body.agent, body.note);
+          return this.json({ success: true, escalation });
+        } catch (error) {
+          return this.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, 409);
+        }
+      }
+    });
+
+    // Expire inactive sessions now
+    this.routes.push({
+      method: 'POST',
+      pattern: /^\/sessions\/expire$/,
       handler: async () => {
-        const sessions = this.runtime.getActiveSessions();
+        const expired = this.runtime.expireInactiveSessions();
+        return this.json({ success: true, count: expired.length, expired });
+      }
+    });
+
+    // List sessions (active by default, ?status= for others)
+    this.routes.push({
+      method: 'GET',
+      pattern: /^\/sessions$/,
+      handler: async (req) => {
+        const status = new URL(req.url).searchParams.get('status') as SessionStatus | null;
+        const sessions = status ? this.runtime.getSessionsByStatus(status) : this.runtime.getActiveSessions();
         return this.json({
           success: true,
           count: sessions.length,
@@ -151,6 +490,70 @@ export class APIServer {
       }
     });
 
+    // Get intent catalog
+    this.routes.push({
+      method: 'GET',
+      pattern: /^\/intents$/,
+      handler: async () => {
+        return this.json({ success: true, catalog: this.runtime.getOrchestrator().getIntentCatalog() });
+      }
+    });
+
+    // Add/replace or remove a catalog intent (validated; bumps the catalog version)
+    this.routes.push({
+      method: 'PUT',
+      pattern: /^\/intents\/([^/]+)$/,
+      handler: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/intents\/([^/]+)$/);
+        const intentId = match ? decodeURIComponent(match[1]) : undefined;
+
+        if (!intentId) {
+          return this.json({ success: false, error: 'Intent ID required' }, 400);
+        }
+        const body = await req.json().catch(() => ({})) as IntentConfig;
+
+        try {
+          const catalog = this.runtime.getOrchestrator().setIntent(intentId, body);
+          return this.json({
+            success: true,
+            version: catalog.version,
+            configVersion: this.runtime.getConfig().version,
+            intent: catalog.intents[intentId]
+          });
+        } catch (error) {
+          return this.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, 400);
+        }
+      }
+    });
+
+    this.routes.push({
+      method: 'DELETE',
+      pattern: /^\/intents\/([^/]+)$/,
+      handler: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/intents\/([^/]+)$/);
+        const intentId = match ? decodeURIComponent(match[1]) : undefined;
+
+        if (!intentId) {
+          return this.json({ success: false, error: 'Intent ID required' }, 400);
+        }
+
+        try {
+          const catalog = this.runtime.getOrchestrator().removeIntent(intentId);
+          return this.json({ success: true, version: catalog.version, configVersion: this.runtime.getConfig().version });
+        } catch (error) {
+          return this.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, 409);
+        }
+      }
+    });
+
     // === SIDE QUEST: Dynamic MAS Update ===
 
     // Add dynamic rule via prompt
@@ -359,6 +762,16 @@ export async function startServer(port: number = 3001, brandName: string = 'NATP
     ? buildNATPATMAS()
     : buildDefaultMAS(brandName);
 
+  // MEMORY_TYPE=persistent keeps sessions across restarts
+  if (process.env.MEMORY_TYPE === 'persistent') {
+    config.memory.type = 'persistent';
+  }
+
+  // INTENT_CLASSIFIER=statistical routes with the trained model (npm run train:intents)
+  if (process.env.INTENT_CLASSIFIER === 'statistical') {
+    config.orchestrator.classifier = { type: 'statistical', modelPath: process.env.INTENT_MODEL_PATH };
+  }
+
   // Create runtime
   const runtime = new MASRuntime(config);
 
@@ -417,13 +830,32 @@ export async function startServer(port: number = 3001, brandName: string = 'NATP
     });
 
     const response = await api.handle(request);
-    const responseBody = await response.text();
 
     const responseHeaders: Record<string, string> = {};
     response.headers.forEach((value, key) => {
       responseHeaders[key] = value;
     });
 
+    // Event streams are piped as they are produced instead of buffered
+    if (response.body && response.headers.get('content-type') === 'text/event-stream') {
+      res.writeHead(response.status, responseHeaders);
+      res.flushHeaders();
+      const reader = response.body.getReader();
+      res.on('close', () => reader.cancel().catch(() => undefined));
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          res.write(value);
+        }
+      } catch {
+        // Client went away
+      }
+      res.end();
+      return;
+    }
+
+    const responseBody = await response.text();
     res.writeHead(response.status, responseHeaders);
     res.end(responseBody);
   });
@@ -431,6 +863,9 @@ export async function startServer(port: number = 3001, brandName: string = 'NATP
   server.listen(port, () => {
     console.log(`[MAS] Server running on http://localhost:${port}`);
   });
+
+  // Expire idle sessions once a minute
+  setInterval(() => runtime.expireInactiveSessions(), 60 * 1000).unref();
 }
 
 // CLI entry point (ESM compatible)
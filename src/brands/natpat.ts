@@ -8,6 +8,13 @@
 import { RawWorkflowEntry } from '../meta/workflow-parser';
 import { loadTickets } from '../data/tickets';
 import { buildMAS, MASBuildOutput } from '../meta/mas-builder';
+import { parseIntentCatalog } from '../meta/intent-extractor/catalog';
+import natpatIntents from './natpat.intents.json';
+
+/**
+ * NATPAT intent catalog (edit natpat.intents.json; validated here at load)
+ */
+export const NATPAT_INTENT_CATALOG = parseIntentCatalog(natpatIntents, 'natpat.intents.json');
 
 /**
  * NATPAT-specific workflows based on ticket analysis
@@ -154,7 +161,32 @@ export const NATPAT_CONTEXT = {
     'Full refund with return',
     'Free replacement for quality issues (up to 2 packs)',
     'Subscription can be paused/skipped/cancelled anytime'
-  ]
+  ],
+  email: {
+    fromName: 'NATPAT Support',
+    fromAddress: 'support@natpat.com',
+    signature: 'Agent xx\nThe NATPAT Support Team',
+    footer: 'The Natural Patch Co · 1981 E Cross Rd, Galena IL 61036'
+  },
+  supportCalendar: {
+    timezone: 'America/Chicago',
+    hours: {
+      mon: { open: '09:00', close: '17:00' },
+      tue: { open: '09:00', close: '17:00' },
+      wed: { open: '09:00', close: '17:00' },
+      thu: { open: '09:00', close: '17:00' },
+      fri: { open: '09:00', close: '17:00' }
+    },
+    holidays: [
+      { date: '2026-01-01', name: 'New Year\'s Day' },
+      { date: '2026-05-25', name: 'Memorial Day' },
+      { date: '2026-07-03', name: 'Independence Day' },
+      { date: '2026-09-07', name: 'Labor Day' },
+      { date: '2026-11-26', name: 'Thanksgiving' },
+      { date: '2026-12-25', name: 'Christmas Day' },
+      { date: '2027-01-01', name: 'New Year\'s Day' }
+    ]
+  }
 };
 
 /**
@@ -167,7 +199,13 @@ export function buildNATPATMAS(): MASBuildOutput {
   return buildMAS({
     brandName: 'NATPAT',
     workflowEntries: NATPAT_WORKFLOWS,
-    historicalTickets: tickets
+    historicalTickets: tickets,
+    intentCatalog: NATPAT_INTENT_CATALOG,
+    brandContext: {
+      tone: NATPAT_CONTEXT.tone,
+      email: NATPAT_CONTEXT.email,
+      supportCalendar: NATPAT_CONTEXT.supportCalendar
+    }
   });
 }
 
@@ -30,6 +30,19 @@ export function loadTickets(): Ticket[] {
   }
 }
 
+/**
+ * Load hand-labeled intents (conversationId → intent) for classifier training
+ */
+export function loadTicketLabels(): Record<string, string> {
+  try {
+    const labelPath = join(process.cwd(), 'data', 'ticket-labels.json');
+    return JSON.parse(readFileSync(labelPath, 'utf-8'));
+  } catch (error) {
+    console.warn('[Tickets] Could not load ticket labels file:', error);
+    return {};
+  }
+}
+
 /**
  * Get sample tickets for quick testing
  */
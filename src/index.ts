@@ -8,15 +8,25 @@
 export * from './meta/tool-mapper/tools';
 export * from './meta/workflow-parser';
 export * from './meta/intent-extractor';
+export * from './meta/intent-extractor/catalog';
+export * from './meta/intent-extractor/classifier';
+export * from './meta/intent-extractor/discovery';
 export * from './meta/agent-generator';
 export * from './meta/mas-builder';
 
 // MAS Runtime (Step 1 implementation)
 export * from './mas/memory';
+export * from './mas/memory/storage';
+export * from './mas/memory/context-window';
+export * from './mas/memory/profiles';
 export * from './mas/tracing';
 export * from './mas/orchestrator';
+export * from './mas/orchestrator/supervisor';
+export * from './mas/escalation';
 export * from './mas/tools/client';
 export * from './mas/agents/executor';
+export * from './mas/email';
+export * from './mas/email/outbound';
 export * from './mas/runtime';
 
 // Self-Simulation & Judge (Observability)
@@ -0,0 +1,199 @@
+/**
+ * Cassette LLM Client — Record provider responses once, replay them offline
+ *
+ * Each request (messages, offered tool names, model settings) is normalized
+ * and hashed. In record mode the real provider answers and the pair is
+ * written to the cassette file; in replay mode recorded answers come back
+ * without a network call. Strict replay throws on a prompt that was never
+ * recorded, so a changed prompt fails the test instead of calling out.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { LLMClient, LLMMessage, LLMRequestOptions, LLMResponse, StreamingLLMClient } from './executor';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  path: string; // Cassette JSON file
+  mode?: CassetteMode; // Default: replay
+  strict?: boolean; // Replay: throw on unrecorded prompts instead of asking `client`
+  client?: LLMClient; // Real provider; required to record
+}
+
+export interface CassetteEntry {
+  request: {
+    messages: LLMMessage[];
+    tools: string[];
+    options: Pick<LLMRequestOptions, 'model' | 'temperature' | 'maxTokens'>;
+  };
+  response: LLMResponse;
+  recordedAt: string;
+}
+
+export interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+}
+
+export interface CassetteClient extends StreamingLLMClient {
+  stats(): { hits: number; misses: number; recorded: number };
+}
+
+// Per-run values that would otherwise change the hash of an identical prompt:
+// ids, timestamps, dates (profile "last on ...") and support-calendar ETAs
+const VOLATILE: Array<[RegExp, string]> = [
+  [/\bsession_\d+_[a-z0-9]+\b/gi, 'session_*'],
+  [/\b(evt|span|esc|item)_\d+_[a-z0-9]+\b/gi, '$1_*'],
+  [/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z?/g, '<timestamp>'],
+  [/\b\d{4}-\d{2}-\d{2}\b/g, '<date>'],
+  [/\bwithin \d+ (minute|hour)s?\b/gi, 'within <eta>'],
+  [/\bby [A-Z][a-z]+day, [A-Z][a-z]{2} \d{1,2}, \d{1,2}:\d{2}\s[AP]M [A-Z]{2,5}([+-]\d{1,2}(:\d{2})?)?/g, 'by <eta>'],
+  [/[ \t]+/g, ' ']
+];
+
+/**
+ * Prompt text with volatile ids, timestamps, dates and ETAs masked
+ */
+export function normalizePrompt(text: string | null): string {
+  return VOLATILE.reduce((value, [pattern, replacement]) => value.replace(pattern, replacement), text ?? '').trim();
+}
+
+/**
+ * Hash identifying a request on the cassette
+ */
+export function cassetteKey(messages: LLMMessage[], tools: object[] = [], options: LLMRequestOptions = {}): string {
+  const normalized = {
+    messages: messages.map(m => ({
+      role: m.role,
+      content: normalizePrompt(m.content),
+      tool_call_id: m.tool_call_id,
+      tool_calls: m.tool_calls?.map(c => ({ id: c.id, name: c.function.name, arguments: c.function.arguments }))
+    })),
+    tools: toolNames(tools),
+    model: options.model,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens
+  };
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Create a record/replay client over a cassette file
+ */
+export function createCassetteClient(options: CassetteOptions): CassetteClient {
+  const mode = options.mode ?? 'replay';
+  if (mode === 'record' && !options.client) {
+    throw new Error(`Cassette ${options.path}: recording needs a real LLM client`);
+  }
+
+  const cassette = loadCassette(options.path);
+  const counts = { hits: 0, misses: 0, recorded: 0 };
+
+  const answer = async (
+    messages: LLMMessage[],
+    tools: object[] | undefined,
+    requestOptions: LLMRequestOptions = {},
+    ask: (client: LLMClient) => Promise<LLMResponse>
+  ): Promise<{ response: LLMResponse; replayed: boolean }> => {
+    const key = cassetteKey(messages, tools, requestOptions);
+
+    const recorded = cassette.entries[key];
+    if (mode === 'replay' && recorded) {
+      counts.hits++;
+      return { response: recorded.response, replayed: true };
+    }
+
+    counts.misses++;
+    if (mode === 'replay' && (options.strict || !options.client)) {
+      const lastUser = messages.filter(m => m.role === 'user').pop()?.content ?? '';
+      throw new Error(
+        `Cassette ${options.path}: no recording for prompt ${key} ("${lastUser.slice(0, 60)}"). ` +
+        'Record it with LLM_CASSETTE_MODE=record.'
+      );
+    }
+
+    const response = await ask(options.client!);
+    cassette.entries[key] = {
+      request: {
+        messages,
+        tools: toolNames(tools ?? []),
+        options: { model: requestOptions.model, temperature: requestOptions.temperature, maxTokens: requestOptions.maxTokens }
+      },
+      response: { content: response.content, tool_calls: response.tool_calls },
+      recordedAt: new Date().toISOString()
+    };
+    counts.recorded++;
+    saveCassette(options.path, cassette);
+    return { response, replayed: false };
+  };
+
+  return {
+    async chat(messages: LLMMessage[], tools?: object[], requestOptions?: LLMRequestOptions) {
+      const { response } = await answer(messages, tools, requestOptions, client => client.chat(messages, tools, requestOptions));
+      return response;
+    },
+
+    async streamChat(messages: LLMMessage[], tools: object[] | undefined, onToken: (token: string) => void, requestOptions?: LLMRequestOptions) {
+      const { response, replayed } = await answer(messages, tools, requestOptions, client => {
+        const streaming = client as Partial<StreamingLLMClient>;
+        return streaming.streamChat
+          ? streaming.streamChat.call(client, messages, tools, onToken, requestOptions)
+          : client.chat(messages, tools, requestOptions);
+      });
+      // A replayed reply arrives as one token
+      if (replayed && response.content) onToken(response.content);
+      return response;
+    },
+
+    stats() {
+      return { ...counts };
+    }
+  };
+}
+
+/**
+ * Cassette client from LLM_CASSETTE (path), LLM_CASSETTE_MODE and
+ * LLM_CASSETTE_STRICT; undefined when no cassette is configured. `live`
+ * creates the real client, only called when recording or allowed on a miss.
+ */
+export function cassetteFromEnv(live: () => LLMClient): CassetteClient | undefined {
+  const path = process.env.LLM_CASSETTE;
+  if (!path) return undefined;
+
+  const mode: CassetteMode = process.env.LLM_CASSETTE_MODE === 'record' ? 'record' : 'replay';
+  const strict = process.env.LLM_CASSETTE_STRICT === 'true';
+  console.log(`[LLM] Cassette ${path} (${mode}${strict ? ', strict' : ''})`);
+  // Lenient replay falls back to a live provider when one is configured
+  let client: LLMClient | undefined;
+  if (mode === 'record') {
+    client = live();
+  } else if (!strict) {
+    try {
+      client = live();
+    } catch {
+      client = undefined;
+    }
+  }
+  return createCassetteClient({ path, mode, strict, client });
+}
+
+function toolNames(tools: object[]): string[] {
+  return tools.map(t => (t as { name?: string }).name ?? '').sort();
+}
+
+function loadCassette(path: string): CassetteFile {
+  if (!existsSync(path)) return { version: 1, entries: {} };
+
+  const parsed = JSON.parse(readFileSync(path, 'utf-8')) as CassetteFile;
+  if (parsed.version !== 1 || typeof parsed.entries !== 'object') {
+    throw new Error(`Cassette ${path}: unsupported format`);
+  }
+  return parsed;
+}
+
+function saveCassette(path: string, cassette: CassetteFile): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(cassette, null, 2)}\n`);
+}
@@ -0,0 +1,99 @@
+/**
+ * Escalation Tool — Built-in tool every agent can call to hand off to a human
+ *
+ * escalate_to_human is not a Lookfor endpoint. The executor intercepts it,
+ * stops the LLM loop, escalates the session and tags the Shopify customer
+ * and order so the team can find the conversation from the store admin.
+ */
+
+import type { Session } from '../memory';
+import { toolClient, ToolCallResult } from '../tools/client';
+
+export const ESCALATION_TOOL = 'escalate_to_human';
+
+// Tags added to the customer and order on escalation
+export const ESCALATION_TAGS = ['escalated-to-human'];
+
+export const DEFAULT_HANDOFF_MESSAGE = 'I\'m passing this to our team. A specialist will follow up with you shortly.';
+
+export interface EscalationRequest {
+  reason: string;
+  summary: Record<string, unknown>;
+}
+
+export interface TagResult {
+  params: Record<string, unknown>;
+  result: ToolCallResult;
+}
+
+/**
+ * Schema offered to the LLM alongside the agent's own tools
+ */
+export const ESCALATION_TOOL_SCHEMA = {
+  name: ESCALATION_TOOL,
+  description: 'Hand the conversation to a human agent. Use when an escalation condition applies or you cannot safely proceed. Stops processing; the customer is told a specialist will follow up.',
+  parameters: {
+    type: 'object',
+    properties: {
+      reason: { type: 'string', description: 'Why a human is needed, in one sentence' },
+      summary: {
+        type: 'object',
+        description: 'Handoff notes for the human agent',
+        properties: {
+          customer_request: { type: 'string', description: 'What the customer wants' },
+          attempted_resolution: { type: 'string', description: 'What you checked or did' },
+          blocking_reason: { type: 'string', description: 'What stops you from resolving it' }
+        }
+      }
+    },
+    required: ['reason']
+  }
+};
+
+/**
+ * Read the tool arguments; a missing reason still escalates
+ */
+export function parseEscalationRequest(params: Record<string, unknown>): EscalationRequest {
+  const reason = typeof params.reason === 'string' && params.reason.trim()
+    ? params.reason.trim()
+    : 'agent requested human review';
+  const summary = params.summary && typeof params.summary === 'object' && !Array.isArray(params.summary)
+    ? params.summary as Record<string, unknown>
+    : {};
+  return { reason, summary };
+}
+
+/**
+ * Tag the Shopify customer and the latest looked-up order via shopify_add_tags
+ */
+export async function tagEscalation(session: Session): Promise<TagResult[]> {
+  const ids = [customerGid(session.shopifyCustomerId), findOrderGid(session)]
+    .filter((id): id is string => !!id);
+
+  const results: TagResult[] = [];
+  for (const id of ids) {
+    const params = { id, tags: ESCALATION_TAGS };
+    results.push({ params, result: await toolClient.execute('shopify_add_tags', params) });
+  }
+  return results;
+}
+
+/**
+ * Shopify customer GID; other IDs (emails, `cust_123`) are not Shopify's
+ */
+function customerGid(customerId: string): string | undefined {
+  if (/^\d+$/.test(customerId)) return `gid://shopify/Customer/${customerId}`;
+  return customerId.startsWith('gid://') ? customerId : undefined;
+}
+
+/**
+ * Most recent order GID seen in order tool results
+ */
+function findOrderGid(session: Session): string | undefined {
+  for (const call of [...session.toolCalls].reverse()) {
+    if (!call.result.success || !call.toolHandle.startsWith('shopify_')) continue;
+    const gid = JSON.stringify(call.result.data ?? null).match(/gid:\/\/shopify\/Order\/\d+/)?.[0];
+    if (gid) return gid;
+  }
+  return undefined;
+}
@@ -6,8 +6,33 @@
 
 import { AgentConfig } from '../../meta/agent-generator';
 import { Session, memoryStore } from '../memory';
+import { customerProfiles } from '../memory/profiles';
+import { ContextWindowManager, ContextWindowConfig, DEFAULT_TOKEN_BUDGET } from '../memory/context-window';
 import { toolClient, ToolCallResult } from '../tools/client';
 import { tracer } from '../tracing';
+import { sessionStream } from '../tracing/stream';
+import {
+  ESCALATION_TOOL,
+  ESCALATION_TOOL_SCHEMA,
+  DEFAULT_HANDOFF_MESSAGE,
+  parseEscalationRequest,
+  tagEscalation
+} from './escalation-tool';
+import { HandoffNote, HANDOFF_BRIEF, buildHandoffContent, formatHandoffNote, parseHandoffContent } from './handoff';
+import {
+  LLMProvider,
+  LLMProviderError,
+  RetryPolicy,
+  checkResponse,
+  createResilientClient,
+  readJsonResponse
+} from './resilient-client';
+
+// Tool calls from one LLM turn executed at the same time
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+// Model asked of a local server when neither the agent nor LOCAL_LLM_MODEL names one
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
 
 export interface AgentResponse {
   message: string;
@@ -17,6 +42,19 @@ export interface AgentResponse {
     result: ToolCallResult;
   }[];
   reasoning?: string;
+  escalated?: boolean; // The agent called escalate_to_human
+}
+
+/**
+ * Escalates a session on the agent's behalf; returns the message for the customer
+ */
+export type EscalationHandler = (sessionId: string, reason: string, summary: Record<string, unknown>) => { customerMessage?: string };
+
+export interface ExecuteOptions {
+  // Extra task for this run: a sequence step or a supervisor brief
+  instruction?: string;
+  // Record the reply as the agent's message to the customer (off for internal reports)
+  record?: boolean;
 }
 
 export interface LLMMessage {
@@ -33,18 +71,47 @@ export interface LLMMessage {
   }[];
 }
 
+export interface LLMResponse {
+  content: string | null;
+  tool_calls?: LLMMessage['tool_calls'];
+}
+
+/**
+ * Per-request model settings; each client falls back to its own defaults
+ */
+export interface LLMRequestOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  sessionId?: string; // Session the call is for (attempt tracing)
+  signal?: AbortSignal; // Aborts the provider request (timeouts)
+}
+
 export interface LLMClient {
-  chat(messages: LLMMessage[], tools?: object[]): Promise<{
-    content: string | null;
-    tool_calls?: {
-      id: string;
-      type: 'function';
-      function: {
-        name: string;
-        arguments: string;
-      };
-    }[];
-  }>;
+  chat(messages: LLMMessage[], tools?: object[], options?: LLMRequestOptions): Promise<LLMResponse>;
+}
+
+/**
+ * LLM client that can also hand out reply tokens while the response is generated
+ */
+export interface StreamingLLMClient extends LLMClient {
+  streamChat(
+    messages: LLMMessage[],
+    tools: object[] | undefined,
+    onToken: (token: string) => void,
+    options?: LLMRequestOptions
+  ): Promise<LLMResponse>;
+}
+
+/**
+ * Model settings from an agent config
+ */
+export function agentLLMOptions(agent: AgentConfig): LLMRequestOptions {
+  return { model: agent.model, temperature: agent.temperature, maxTokens: agent.maxTokens };
+}
+
+export function isStreamingClient(client: LLMClient): client is StreamingLLMClient {
+  return typeof (client as Partial<StreamingLLMClient>).streamChat === 'function';
 }
 
 /**
@@ -54,72 +121,94 @@ export class AgentExecutor {
   private agent: AgentConfig;
   private llmClient: LLMClient;
   private maxToolCalls: number;
+  private toolConcurrency: number;
+  private llmOptions: LLMRequestOptions;
+  private contextWindow: ContextWindowManager;
+  private onEscalate?: EscalationHandler;
 
-  constructor(agent: AgentConfig, llmClient: LLMClient, maxToolCalls: number = 5) {
+  constructor(
+    agent: AgentConfig,
+    llmClient: LLMClient,
+    maxToolCalls: number = 5,
+    contextWindow: Partial<ContextWindowConfig> = {},
+    onEscalate?: EscalationHandler
+  ) {
     this.agent = agent;
     this.llmClient = llmClient;
     this.maxToolCalls = maxToolCalls;
+    this.toolConcurrency = Math.max(1, agent.toolConcurrency ?? DEFAULT_TOOL_CONCURRENCY);
+    this.llmOptions = agentLLMOptions(agent);
+    this.onEscalate = onEscalate;
+    this.contextWindow = new ContextWindowManager({
+      maxTurns: contextWindow.maxTurns ?? 50,
+      tokenBudget: agent.contextBudget ?? contextWindow.tokenBudget ?? DEFAULT_TOKEN_BUDGET
+    });
   }
 
   /**
    * Execute agent for a message in session
    */
-  async execute(sessionId: string, customerMessage: string): Promise<AgentResponse> {
+  async execute(sessionId: string, customerMessage: string, options: ExecuteOptions = {}): Promise<AgentResponse> {
     const session = memoryStore.getSession(sessionId);
     if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
     }
 
-    // Build messages
-    const messages = this.buildMessages(session, customerMessage);
+    // Get tools for this agent, plus the built-in escalation tool
+    const tools = [...toolClient.getAgentToolSchemas(this.agent.tools), ESCALATION_TOOL_SCHEMA];
 
-    // Get tools for this agent
-    const tools = toolClient.getAgentToolSchemas(this.agent.tools);
+    // Build messages
+    const messages = this.buildMessages(session, customerMessage, tools, options.instruction);
 
     // Execute LLM loop
     const toolCalls: AgentResponse['toolCalls'] = [];
-    let response = await this.llmClient.chat(messages, tools);
+    const stream = options.record !== false;
+    let response = await this.complete(sessionId, messages, tools, stream);
 
     // Handle tool calls
     let iterations = 0;
     while (response.tool_calls && response.tool_calls.length > 0 && iterations < this.maxToolCalls) {
       iterations++;
 
-      for (const toolCall of response.tool_calls) {
-        const toolHandle = toolCall.function.name;
-        const params = JSON.parse(toolCall.function.arguments);
-
-        // Execute tool
-        const result = await toolClient.execute(toolHandle, params);
-
-        // Record in memory and trace
-        memoryStore.recordToolCall(sessionId, toolHandle, params, result);
-        tracer.traceToolCall(sessionId, toolHandle, params, result);
+      // Handing off to a human ends the run; other calls from that turn are not run
+      const escalation = response.tool_calls.find(t => t.function.name === ESCALATION_TOOL);
+      if (escalation) {
+        const params = parseArguments(escalation.function.arguments);
+        sessionStream.publish(sessionId, 'tool_start', { tool: ESCALATION_TOOL, callId: escalation.id, agentId: this.agent.id, params });
+        return this.escalate(sessionId, escalation.id, params, toolCalls);
+      }
 
-        toolCalls.push({ tool: toolHandle, params, result });
+      // Calls from one turn are independent; run them side by side
+      const results = await runWithConcurrency(response.tool_calls, this.toolConcurrency, toolCall =>
+        this.runTool(sessionId, toolCall)
+      );
+      toolCalls.push(...results);
 
-        // Add tool result to messages
-        messages.push({
-          role: 'assistant',
-          content: null,
-          tool_calls: [toolCall]
-        } as LLMMessage);
+      // One assistant turn with every call, then one tool message per call
+      messages.push({
+        role: 'assistant',
+        content: response.content ?? null,
+        tool_calls: response.tool_calls
+      });
+      response.tool_calls.forEach((toolCall, i) => {
         messages.push({
           role: 'tool',
-          content: JSON.stringify(result),
+          content: JSON.stringify(results[i].result),
           tool_call_id: toolCall.id
         });
-      }
+      });
 
       // Continue LLM loop
-      response = await this.llmClient.chat(messages, tools);
+      response = await this.complete(sessionId, messages, tools, stream);
     }
 
     const finalMessage = response.content || 'I apologize, but I was unable to process your request.';
 
     // Record agent message
-    memoryStore.addMessage(sessionId, 'agent', finalMessage);
-    tracer.traceMessage(sessionId, 'agent', finalMessage);
+    if (options.record !== false) {
+      memoryStore.addMessage(sessionId, 'agent', finalMessage, undefined, this.agent.id);
+      tracer.traceMessage(sessionId, 'agent', finalMessage);
+    }
 
     return {
       message: finalMessage,
@@ -128,25 +217,134 @@ export class AgentExecutor {
   }
 
   /**
-   * Build messages for LLM
+   * Execute one tool call; recorded and traced as soon as it finishes
    */
-  private buildMessages(session: Session, customerMessage: string): LLMMessage[] {
-    const messages: LLMMessage[] = [];
+  private async runTool(
+    sessionId: string,
+    toolCall: NonNullable<LLMResponse['tool_calls']>[number]
+  ): Promise<AgentResponse['toolCalls'][number]> {
+    const toolHandle = toolCall.function.name;
+    const params = parseArguments(toolCall.function.arguments);
+    sessionStream.publish(sessionId, 'tool_start', { tool: toolHandle, callId: toolCall.id, agentId: this.agent.id, params });
 
-    // System prompt with context
-    const systemPrompt = this.buildSystemPrompt(session);
-    messages.push({ role: 'system', content: systemPrompt });
+    // Malformed arguments fail this call only; the LLM sees the error and can retry
+    const invalid = argumentsError(toolCall.function.arguments);
+    const started = Date.now();
+    const result: ToolCallResult = invalid
+      ? { success: false, error: invalid }
+      : await toolClient.execute(toolHandle, params);
+    const latencyMs = Date.now() - started;
 
-    // Conversation history
-    for (const msg of session.messages) {
-      messages.push({
-        role: msg.role === 'customer' ? 'user' : 'assistant',
-        content: msg.content
-      });
+    memoryStore.recordToolCall(sessionId, toolHandle, params, result, this.agent.id);
+    tracer.traceToolCall(sessionId, toolHandle, params, result, latencyMs, toolCall.id);
+
+    return { tool: toolHandle, params, result };
+  }
+
+  /**
+   * One LLM turn. Streams reply tokens to session subscribers when the
+   * client supports it and the reply is meant for the customer.
+   */
+  private complete(sessionId: string, messages: LLMMessage[], tools: object[], stream: boolean): Promise<LLMResponse> {
+    if (stream && isStreamingClient(this.llmClient) && sessionStream.hasSubscribers(sessionId)) {
+      return this.llmClient.streamChat(
+        messages,
+        tools,
+        token => sessionStream.publish(sessionId, 'token', { agentId: this.agent.id, token }),
+        { ...this.llmOptions, sessionId }
+      );
+    }
+    return this.llmClient.chat(messages, tools, { ...this.llmOptions, sessionId });
+  }
+
+  /**
+   * Write a handoff note for the agent taking over. Starts from what the
+   * session shows this agent did; the LLM's note replaces it when usable.
+   */
+  async handoff(sessionId: string, toAgentId: string, reason: string): Promise<HandoffNote> {
+    const session = memoryStore.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const fromSession = buildHandoffContent(session, this.agent.id);
+    let content = fromSession;
+    let source: HandoffNote['source'] = 'session';
+    try {
+      const response = await this.llmClient.chat([
+        { role: 'system', content: `${this.agent.systemPrompt}\n\n${HANDOFF_BRIEF}` },
+        {
+          role: 'user',
+          content: `Handing over to ${toAgentId} (${reason}).\n\nWHAT THE SESSION SHOWS:\n${JSON.stringify(fromSession, null, 2)}\n\nRECENT CONVERSATION:\n${session.messages
+            .slice(-6)
+            .map(m => `${m.role}: ${m.content.slice(0, 200)}`)
+            .join('\n')}`
+        }
+      ], undefined, { ...this.llmOptions, sessionId });
+      const written = parseHandoffContent(response.content);
+      if (written) {
+        content = written;
+        source = 'agent';
+      }
+    } catch (error) {
+      console.log(`[Handoff] ${this.agent.id} note failed, using session record: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return { from: this.agent.id, to: toAgentId, reason, ...content, source, timestamp: new Date().toISOString() };
+  }
+
+  /**
+   * escalate_to_human: escalate the session, tag the Shopify records and
+   * reply with the handoff message instead of asking the LLM again. The
+   * handoff always goes to the customer, even from an internal run.
+   */
+  private async escalate(
+    sessionId: string,
+    callId: string,
+    params: Record<string, unknown>,
+    toolCalls: AgentResponse['toolCalls']
+  ): Promise<AgentResponse> {
+    const { reason, summary } = parseEscalationRequest(params);
+    const session = memoryStore.getSession(sessionId)!;
+
+    // Tag first so the escalation summary lists the tag calls
+    for (const tag of await tagEscalation(session)) {
+      memoryStore.recordToolCall(sessionId, 'shopify_add_tags', tag.params, tag.result, this.agent.id);
+      tracer.traceToolCall(sessionId, 'shopify_add_tags', tag.params, tag.result);
+      toolCalls.push({ tool: 'shopify_add_tags', params: tag.params, result: tag.result });
+    }
+
+    const result = { success: true, data: { escalated: true, reason } };
+    memoryStore.recordToolCall(sessionId, ESCALATION_TOOL, params, result, this.agent.id);
+    tracer.traceToolCall(sessionId, ESCALATION_TOOL, params, result, undefined, callId);
+    toolCalls.push({ tool: ESCALATION_TOOL, params, result });
+
+    const agentSummary = { ...summary, escalated_by: this.agent.id };
+    let customerMessage: string | undefined;
+    if (this.onEscalate) {
+      customerMessage = this.onEscalate(sessionId, reason, agentSummary).customerMessage;
+    } else {
+      memoryStore.escalate(sessionId, reason, agentSummary);
+      tracer.traceEscalation(sessionId, reason, agentSummary);
     }
 
-    // Current message
-    messages.push({ role: 'user', content: customerMessage });
+    const message = customerMessage || DEFAULT_HANDOFF_MESSAGE;
+    memoryStore.addMessage(sessionId, 'agent', message, undefined, this.agent.id);
+    tracer.traceMessage(sessionId, 'agent', message);
+
+    return { message, toolCalls, escalated: true };
+  }
+
+  /**
+   * Build messages for LLM within the agent's context window
+   */
+  private buildMessages(session: Session, customerMessage: string, tools: object[], instruction?: string): LLMMessage[] {
+    const systemPrompt = this.buildSystemPrompt(session, instruction);
+    const { messages, summary } = this.contextWindow.build(session, systemPrompt, customerMessage, tools);
+
+    if (summary && summary !== session.context.conversationSummary) {
+      memoryStore.updateConversationSummary(session.id, summary);
+    }
 
     return messages;
   }
@@ -154,7 +352,7 @@ export class AgentExecutor {
   /**
    * Build system prompt with session context
    */
-  private buildSystemPrompt(session: Session): string {
+  private buildSystemPrompt(session: Session, instruction?: string): string {
     let prompt = this.agent.systemPrompt;
 
     // Add customer context
@@ -174,6 +372,28 @@ export class AgentExecutor {
       prompt += `\n- Previously mentioned orders: ${session.context.mentionedOrderNumbers.join(', ')}`;
     }
 
+    // Add what we know from earlier conversations
+    prompt += customerProfiles.formatHistory(session);
+
+    // A human agent handed this conversation back
+    const handback = session.context.handbackNotes?.[session.context.handbackNotes.length - 1];
+    if (handback) {
+      prompt += `\n\nHANDBACK FROM HUMAN AGENT (${handback.humanAgent}):
+${handback.note}
+Continue from where they left off and honor anything they promised.`;
+    }
+
+    // The agent that held the conversation before this one
+    const handoff = session.context.handoffNotes?.[session.context.handoffNotes.length - 1];
+    if (handoff && handoff.to === this.agent.id && session.context.currentAgent === this.agent.id) {
+      prompt += formatHandoffNote(handoff);
+    }
+
+    // Orchestrator-assigned task for this run
+    if (instruction) {
+      prompt += `\n\nCURRENT TASK:\n${instruction}`;
+    }
+
     // Add boundaries
     if (this.agent.boundaries.length > 0) {
       prompt += `\n\nBOUNDARIES (must follow):
@@ -185,27 +405,65 @@ ${this.agent.boundaries.map(b => `- ${b}`).join('\n')}`;
 }
 
 /**
- * Create LLM client based on available API keys
+ * Create LLM client based on available API keys: every configured provider,
+ * with retries, timeouts and failover in between
  * PRODUCTION ONLY - No mocks
  */
 export function createLLMClient(): LLMClient {
+  const providers = configuredProviders();
+  if (providers.length > 0) {
+    console.log(`[LLM] Providers: ${providers.map(p => p.name).join(' → ')}`);
+    return createResilientClient(providers, retryPolicyFromEnv());
+  }
+  if (process.env.USE_MOCK_API === 'true') {
+    console.log('[LLM] Using Mock LLM (demo mode)');
+    return createMockLLMClient();
+  }
+  throw new Error('No LLM API key found. Set ANTHROPIC_API_KEY, OPENAI_API_KEY, GOOGLE_API_KEY, or LOCAL_LLM_URL');
+}
+
+/**
+ * Providers with credentials in the environment, in failover order:
+ * LLM_PROVIDERS (e.g. "openai,anthropic") or local → anthropic → openai → google
+ */
+export function configuredProviders(): LLMProvider[] {
+  const available: LLMProvider[] = [];
+  if (process.env.LOCAL_LLM_URL) {
+    const api = process.env.LOCAL_LLM_API === 'ollama' ? 'ollama' : 'openai';
+    const model = process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL;
+    console.log(`[LLM] Local ${api === 'ollama' ? 'Ollama' : 'OpenAI-compatible'} server at ${process.env.LOCAL_LLM_URL} (${model})`);
+    available.push({ name: 'local', client: createLocalClient(process.env.LOCAL_LLM_URL, model, api) });
+  }
   if (process.env.ANTHROPIC_API_KEY) {
-    console.log('[LLM] Using Anthropic Claude');
-    return createAnthropicClient(process.env.ANTHROPIC_API_KEY);
+    available.push({ name: 'anthropic', client: createAnthropicClient(process.env.ANTHROPIC_API_KEY) });
   }
   if (process.env.OPENAI_API_KEY) {
-    console.log('[LLM] Using OpenAI');
-    return createOpenAIClient(process.env.OPENAI_API_KEY);
+    available.push({ name: 'openai', client: createOpenAIClient(process.env.OPENAI_API_KEY) });
   }
   if (process.env.GOOGLE_API_KEY) {
-    console.log('[LLM] Using Google Gemini');
-    return createGoogleClient(process.env.GOOGLE_API_KEY);
-  }
-  if (process.env.USE_MOCK_API === 'true') {
-    console.log('[LLM] Using Mock LLM (demo mode)');
-    return createMockLLMClient();
+    available.push({ name: 'google', client: createGoogleClient(process.env.GOOGLE_API_KEY) });
   }
-  throw new Error('No LLM API key found. Set ANTHROPIC_API_KEY, OPENAI_API_KEY, or GOOGLE_API_KEY');
+
+  const order = process.env.LLM_PROVIDERS?.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  if (!order?.length) return available;
+  return order
+    .map(name => available.find(p => p.name === name))
+    .filter((p): p is LLMProvider => !!p);
+}
+
+/**
+ * Retry policy overrides: LLM_MAX_RETRIES, LLM_TIMEOUT_MS, LLM_BACKOFF_MS
+ */
+function retryPolicyFromEnv(): Partial<RetryPolicy> {
+  const read = (name: string) => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+  return {
+    maxRetries: read('LLM_MAX_RETRIES'),
+    timeoutMs: read('LLM_TIMEOUT_MS'),
+    baseDelayMs: read('LLM_BACKOFF_MS')
+  };
 }
 
 /**
@@ -235,36 +493,40 @@ export function createMockLLMClient(): LLMClient {
   };
 }
 
+
 /**
  * Create Anthropic LLM client
  */
-export function createAnthropicClient(apiKey: string): LLMClient {
+export function createAnthropicClient(apiKey: string): StreamingLLMClient {
+  const request = (messages: LLMMessage[], tools: object[] | undefined, options: LLMRequestOptions = {}, streaming: boolean) =>
+    fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: options.model ?? 'claude-3-haiku-20240307',
+        max_tokens: options.maxTokens ?? 1024,
+        temperature: options.temperature,
+        ...(streaming ? { stream: true } : {}),
+        system: messages.find(m => m.role === 'system')?.content,
+        messages: toAnthropicMessages(messages),
+        tools: tools?.map(t => ({
+          name: (t as { name: string }).name,
+          description: (t as { description: string }).description,
+          input_schema: (t as { parameters: object }).parameters
+        }))
+      })
+    });
+
   return {
-    async chat(messages: LLMMessage[], tools?: object[]) {
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: 'claude-3-haiku-20240307',
-          max_tokens: 1024,
-          system: messages.find(m => m.role === 'system')?.content,
-          messages: messages.filter(m => m.role !== 'system').map(m => ({
-            role: m.role === 'tool' ? 'user' : m.role,
-            content: m.content
-          })),
-          tools: tools?.map(t => ({
-            name: (t as { name: string }).name,
-            description: (t as { description: string }).description,
-            input_schema: (t as { parameters: object }).parameters
-          }))
-        })
-      });
+    async chat(messages: LLMMessage[], tools?: object[], options?: LLMRequestOptions) {
+      const response = await request(messages, tools, options, false);
 
-      const data = await response.json() as { content?: Array<{ type: string; text?: string; id?: string; name?: string; input?: object }> };
+      const data = await readJsonResponse<{ content?: Array<{ type: string; text?: string; id?: string; name?: string; input?: object }> }>('anthropic', response);
 
       // Extract content and tool calls from Anthropic response
       const textBlock = data.content?.find((b) => b.type === 'text');
@@ -283,6 +545,55 @@ export function createAnthropicClient(apiKey: string): LLMClient {
             }
           }))
       };
+    },
+
+    async streamChat(messages: LLMMessage[], tools: object[] | undefined, onToken: (token: string) => void, options?: LLMRequestOptions) {
+      const response = await request(messages, tools, options, true);
+
+      interface AnthropicStreamEvent {
+        type: string;
+        index?: number;
+        content_block?: { type: string; id?: string; name?: string };
+        delta?: { type: string; text?: string; partial_json?: string };
+        error?: { message?: string };
+      }
+
+      // Content blocks by index: text is streamed, tool input arrives as JSON fragments
+      const blocks: { type: string; text: string; id?: string; name?: string }[] = [];
+      for await (const { data } of readServerSentEvents('anthropic', response)) {
+        const event = JSON.parse(data) as AnthropicStreamEvent;
+        if (event.type === 'error') {
+          throw new LLMProviderError('anthropic', `stream error: ${event.error?.message ?? 'unknown'}`);
+        }
+        if (event.type === 'content_block_start' && event.index !== undefined && event.content_block) {
+          blocks[event.index] = { ...event.content_block, text: '' };
+        }
+        if (event.type === 'content_block_delta' && event.index !== undefined && event.delta) {
+          const block = blocks[event.index];
+          if (!block) continue;
+          if (event.delta.type === 'text_delta' && event.delta.text) {
+            block.text += event.delta.text;
+            onToken(event.delta.text);
+          } else if (event.delta.type === 'input_json_delta') {
+            block.text += event.delta.partial_json ?? '';
+          }
+        }
+      }
+
+      const text = blocks.filter(b => b?.type === 'text').map(b => b.text).join('');
+      return {
+        content: text || null,
+        tool_calls: blocks
+          .filter(b => b?.type === 'tool_use' && !!b.id && !!b.name)
+          .map(b => ({
+            id: b.id!,
+            type: 'function' as const,
+            function: {
+              name: b.name!,
+              arguments: b.text || '{}'
+            }
+          }))
+      };
     }
   };
 }
@@ -290,33 +601,45 @@ export function createAnthropicClient(apiKey: string): LLMClient {
 /**
  * Create OpenAI LLM client
  */
-export function createOpenAIClient(apiKey: string): LLMClient {
+export function createOpenAIClient(
+  apiKey: string,
+  baseUrl: string = 'https://api.openai.com/v1',
+  defaultModel: string = 'gpt-4o-mini'
+): StreamingLLMClient {
+  const provider = baseUrl.includes('api.openai.com') ? 'openai' : 'local';
+  const request = (messages: LLMMessage[], tools: object[] | undefined, options: LLMRequestOptions = {}, streaming: boolean) =>
+    fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: options.model ?? defaultModel,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        ...(streaming ? { stream: true } : {}),
+        messages: messages.map(m => ({
+          role: m.role,
+          content: m.content,
+          ...(m.tool_call_id ? { tool_call_id: m.tool_call_id } : {}),
+          ...(m.tool_calls ? { tool_calls: m.tool_calls } : {})
+        })),
+        tools: tools?.map(t => ({
+          type: 'function',
+          function: {
+            name: (t as { name: string }).name,
+            description: (t as { description: string }).description,
+            parameters: (t as { parameters: object }).parameters
+          }
+        }))
+      })
+    });
+
   return {
-    async chat(messages: LLMMessage[], tools?: object[]) {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: messages.map(m => ({
-            role: m.role,
-            content: m.content,
-            ...(m.tool_call_id ? { tool_call_id: m.tool_call_id } : {}),
-            ...(m.tool_calls ? { tool_calls: m.tool_calls } : {})
-          })),
-          tools: tools?.map(t => ({
-            type: 'function',
-            function: {
-              name: (t as { name: string }).name,
-              description: (t as { description: string }).description,
-              parameters: (t as { parameters: object }).parameters
-            }
-          }))
-        })
-      });
+    async chat(messages: LLMMessage[], tools?: object[], options?: LLMRequestOptions) {
+      const response = await request(messages, tools, options, false);
 
       interface OpenAIResponse {
         choices?: Array<{
@@ -330,13 +653,60 @@ export function createOpenAIClient(apiKey: string): LLMClient {
           };
         }>;
       }
-      const data = await response.json() as OpenAIResponse;
+      const data = await readJsonResponse<OpenAIResponse>(provider, response);
       const choice = data.choices?.[0]?.message;
 
       return {
         content: choice?.content || null,
         tool_calls: choice?.tool_calls
       };
+    },
+
+    async streamChat(messages: LLMMessage[], tools: object[] | undefined, onToken: (token: string) => void, options?: LLMRequestOptions) {
+      const response = await request(messages, tools, options, true);
+
+      interface OpenAIChunk {
+        choices?: Array<{
+          delta?: {
+            content?: string | null;
+            tool_calls?: Array<{
+              index: number;
+              id?: string;
+              function?: { name?: string; arguments?: string };
+            }>;
+          };
+        }>;
+      }
+
+      // Tool calls arrive in fragments keyed by index
+      let content = '';
+      const calls: { id: string; name: string; arguments: string }[] = [];
+      for await (const { data } of readServerSentEvents(provider, response)) {
+        if (data === '[DONE]') break;
+        const delta = (JSON.parse(data) as OpenAIChunk).choices?.[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          content += delta.content;
+          onToken(delta.content);
+        }
+        for (const fragment of delta.tool_calls ?? []) {
+          const call = calls[fragment.index] ??= { id: '', name: '', arguments: '' };
+          call.id ||= fragment.id ?? '';
+          call.name += fragment.function?.name ?? '';
+          call.arguments += fragment.function?.arguments ?? '';
+        }
+      }
+
+      const toolCalls = calls.filter(c => c?.name).map(c => ({
+        id: c.id,
+        type: 'function' as const,
+        function: { name: c.name, arguments: c.arguments || '{}' }
+      }));
+      return {
+        content: content || null,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+      };
     }
   };
 }
@@ -344,48 +714,66 @@ export function createOpenAIClient(apiKey: string): LLMClient {
 /**
  * Create Google Gemini LLM client
  */
-export function createGoogleClient(apiKey: string): LLMClient {
-  return {
-    async chat(messages: LLMMessage[], tools?: object[]) {
-      const systemMessage = messages.find(m => m.role === 'system');
-      const conversationMessages = messages.filter(m => m.role !== 'system');
-
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          systemInstruction: systemMessage ? { parts: [{ text: systemMessage.content }] } : undefined,
-          contents: conversationMessages.map(m => ({
-            role: m.role === 'user' ? 'user' : 'model',
-            parts: [{ text: m.content }]
-          })),
-          tools: tools && tools.length > 0 ? [{
-            functionDeclarations: tools.map(t => ({
-              name: (t as { name: string }).name,
-              description: (t as { description: string }).description,
-              parameters: (t as { parameters: object }).parameters
-            }))
-          }] : undefined
-        })
-      });
-
-      interface GeminiResponse {
-        candidates?: Array<{
-          content?: {
-            parts?: Array<{
-              text?: string;
-              functionCall?: { name: string; args: object };
-            }>;
-          };
+export function createGoogleClient(apiKey: string): StreamingLLMClient {
+  interface GeminiResponse {
+    candidates?: Array<{
+      content?: {
+        parts?: Array<{
+          text?: string;
+          functionCall?: { name: string; args: object };
         }>;
+      };
+    }>;
+  }
+
+  const request = (messages: LLMMessage[], tools: object[] | undefined, options: LLMRequestOptions = {}, streaming: boolean) => {
+    const systemMessage = messages.find(m => m.role === 'system');
+    const conversationMessages = messages.filter(m => m.role !== 'system');
+    const method = streaming ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+
+    const model = options.model ?? 'gemini-1.5-flash';
+
+    return fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}key=${apiKey}`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        systemInstruction: systemMessage ? { parts: [{ text: systemMessage.content }] } : undefined,
+        contents: toGeminiContents(conversationMessages),
+        generationConfig: options.temperature !== undefined || options.maxTokens !== undefined
+          ? { temperature: options.temperature, maxOutputTokens: options.maxTokens }
+          : undefined,
+        tools: tools && tools.length > 0 ? [{
+          functionDeclarations: tools.map(t => ({
+            name: (t as { name: string }).name,
+            description: (t as { description: string }).description,
+            parameters: (t as { parameters: object }).parameters
+          }))
+        }] : undefined
+      })
+    });
+  };
+
+  const toToolCalls = (functionCalls: { name: string; args: object }[]) =>
+    functionCalls.map((call, i: number) => ({
+      id: `call_${i}`,
+      type: 'function' as const,
+      function: {
+        name: call.name,
+        arguments: JSON.stringify(call.args)
       }
-      const data = await response.json() as GeminiResponse;
+    }));
+
+  return {
+    async chat(messages: LLMMessage[], tools?: object[], options?: LLMRequestOptions) {
+      const response = await request(messages, tools, options, false);
+      const data = await readJsonResponse<GeminiResponse>('google', response);
       const candidate = data.candidates?.[0]?.content;
 
       if (!candidate) {
-        return { content: 'I apologize, but I was unable to process your request.' };
+        throw new LLMProviderError('google', 'response has no candidates', { retryable: true });
       }
 
       const textPart = candidate.parts?.find((p) => p.text);
@@ -393,17 +781,315 @@ export function createGoogleClient(apiKey: string): LLMClient {
 
       return {
         content: textPart?.text || null,
-        tool_calls: functionCalls
+        tool_calls: toToolCalls(functionCalls
           .filter((p): p is { functionCall: { name: string; args: object } } => !!p.functionCall)
-          .map((p, i: number) => ({
-            id: `call_${i}`,
-            type: 'function' as const,
-            function: {
-              name: p.functionCall.name,
-              arguments: JSON.stringify(p.functionCall.args)
-            }
-          }))
+          .map(p => p.functionCall))
+      };
+    },
+
+    async streamChat(messages: LLMMessage[], tools: object[] | undefined, onToken: (token: string) => void, options?: LLMRequestOptions) {
+      const response = await request(messages, tools, options, true);
+
+      // Each event is a partial GenerateContentResponse
+      let content = '';
+      const functionCalls: { name: string; args: object }[] = [];
+      for await (const { data } of readServerSentEvents('google', response)) {
+        const parts = (JSON.parse(data) as GeminiResponse).candidates?.[0]?.content?.parts ?? [];
+        for (const part of parts) {
+          if (part.text) {
+            content += part.text;
+            onToken(part.text);
+          }
+          if (part.functionCall) functionCalls.push(part.functionCall);
+        }
+      }
+
+      return {
+        content: content || null,
+        tool_calls: toToolCalls(functionCalls)
       };
     }
   };
 }
+
+/**
+ * Create a client for a local model server. 'openai' speaks the
+ * OpenAI-compatible chat API (llama.cpp server, vLLM, Ollama's /v1; baseUrl
+ * ends in /v1); 'ollama' speaks Ollama's native /api/chat.
+ */
+export function createLocalClient(
+  baseUrl: string,
+  defaultModel: string = DEFAULT_LOCAL_MODEL,
+  api: 'openai' | 'ollama' = 'openai'
+): StreamingLLMClient {
+  return api === 'ollama'
+    ? createOllamaClient(baseUrl, defaultModel)
+    : createOpenAIClient(process.env.LOCAL_LLM_API_KEY || '', baseUrl, defaultModel);
+}
+
+/**
+ * Create Ollama LLM client (native API)
+ */
+export function createOllamaClient(baseUrl: string, defaultModel: string = DEFAULT_LOCAL_MODEL): StreamingLLMClient {
+  interface OllamaMessage {
+    role?: string;
+    content?: string;
+    tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>;
+  }
+  interface OllamaResponse {
+    message?: OllamaMessage;
+    done?: boolean;
+    error?: string;
+  }
+
+  const request = (messages: LLMMessage[], tools: object[] | undefined, options: LLMRequestOptions = {}, streaming: boolean) =>
+    fetch(`${baseUrl.replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: options.model ?? defaultModel,
+        stream: streaming, // Ollama streams unless told not to
+        messages: messages.map(m => ({
+          role: m.role,
+          content: m.content ?? '',
+          ...(m.tool_calls ? {
+            tool_calls: m.tool_calls.map(c => ({ function: { name: c.function.name, arguments: parseArguments(c.function.arguments) } }))
+          } : {})
+        })),
+        tools: tools?.map(t => ({
+          type: 'function',
+          function: {
+            name: (t as { name: string }).name,
+            description: (t as { description: string }).description,
+            parameters: (t as { parameters: object }).parameters
+          }
+        })),
+        options: {
+          temperature: options.temperature,
+          num_predict: options.maxTokens
+        }
+      })
+    });
+
+  // Ollama tool calls carry no id; number them like the Gemini client does
+  const toToolCalls = (calls: NonNullable<OllamaMessage['tool_calls']>) => calls.length > 0
+    ? calls.map((call, i: number) => ({
+      id: `call_${i}`,
+      type: 'function' as const,
+      function: {
+        name: call.function.name,
+        arguments: JSON.stringify(call.function.arguments ?? {})
+      }
+    }))
+    : undefined;
+
+  return {
+    async chat(messages: LLMMessage[], tools?: object[], options?: LLMRequestOptions) {
+      const response = await request(messages, tools, options, false);
+      const data = await readJsonResponse<OllamaResponse>('ollama', response);
+      if (data.error) {
+        throw new LLMProviderError('ollama', data.error);
+      }
+
+      return {
+        content: data.message?.content || null,
+        tool_calls: toToolCalls(data.message?.tool_calls ?? [])
+      };
+    },
+
+    async streamChat(messages: LLMMessage[], tools: object[] | undefined, onToken: (token: string) => void, options?: LLMRequestOptions) {
+      const response = await request(messages, tools, options, true);
+
+      // Newline-delimited JSON, one partial message per line
+      let content = '';
+      const calls: NonNullable<OllamaMessage['tool_calls']> = [];
+      for await (const line of readJsonLines('ollama', response)) {
+        const chunk = JSON.parse(line) as OllamaResponse;
+        if (chunk.error) {
+          throw new LLMProviderError('ollama', chunk.error);
+        }
+        if (chunk.message?.content) {
+          content += chunk.message.content;
+          onToken(chunk.message.content);
+        }
+        calls.push(...(chunk.message?.tool_calls ?? []));
+        if (chunk.done) break;
+      }
+
+      return {
+        content: content || null,
+        tool_calls: toToolCalls(calls)
+      };
+    }
+  };
+}
+
+type ProviderBlock = Record<string, unknown>;
+
+/**
+ * Anthropic messages: an assistant turn's tool calls become tool_use blocks,
+ * and the results for that turn go back in one user message of tool_result blocks
+ */
+function toAnthropicMessages(messages: LLMMessage[]): { role: 'user' | 'assistant'; content: string | ProviderBlock[] }[] {
+  const result: { role: 'user' | 'assistant'; content: string | ProviderBlock[] }[] = [];
+  for (const m of messages) {
+    if (m.role === 'system') continue;
+
+    if (m.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: m.tool_call_id, content: m.content ?? '' };
+      const last = result[result.length - 1];
+      if (last?.role === 'user' && Array.isArray(last.content)) last.content.push(block);
+      else result.push({ role: 'user', content: [block] });
+    } else if (m.role === 'assistant' && m.tool_calls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(m.content ? [{ type: 'text', text: m.content }] : []),
+          ...m.tool_calls.map(c => ({ type: 'tool_use', id: c.id, name: c.function.name, input: parseArguments(c.function.arguments) }))
+        ]
+      });
+    } else {
+      result.push({ role: m.role, content: m.content ?? '' });
+    }
+  }
+  return result;
+}
+
+/**
+ * Gemini contents: tool calls become functionCall parts, and the results for
+ * a turn go back together as functionResponse parts (matched by call id)
+ */
+function toGeminiContents(messages: LLMMessage[]): { role: 'user' | 'model'; parts: ProviderBlock[] }[] {
+  const callNames = new Map<string, string>();
+  const result: { role: 'user' | 'model'; parts: ProviderBlock[] }[] = [];
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      const response = parseArguments(m.content ?? '');
+      const part = { functionResponse: { name: callNames.get(m.tool_call_id ?? '') ?? 'tool', response } };
+      const last = result[result.length - 1];
+      if (last?.role === 'user' && last.parts.every(p => 'functionResponse' in p)) last.parts.push(part);
+      else result.push({ role: 'user', parts: [part] });
+    } else if (m.role === 'assistant' && m.tool_calls?.length) {
+      m.tool_calls.forEach(c => callNames.set(c.id, c.function.name));
+      result.push({
+        role: 'model',
+        parts: [
+          ...(m.content ? [{ text: m.content }] : []),
+          ...m.tool_calls.map(c => ({ functionCall: { name: c.function.name, args: parseArguments(c.function.arguments) } }))
+        ]
+      });
+    } else {
+      result.push({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.content }] });
+    }
+  }
+  return result;
+}
+
+/**
+ * JSON object from tool arguments or a tool result; anything else is wrapped
+ */
+function parseArguments(json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { result: parsed };
+  } catch {
+    return { result: json };
+  }
+}
+
+/**
+ * Why tool call arguments cannot be used (undefined when they can)
+ */
+function argumentsError(json: string): string | undefined {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? undefined : 'Tool arguments must be a JSON object';
+  } catch (error) {
+    return `Tool arguments are not valid JSON: ${error instanceof Error ? error.message : error}`;
+  }
+}
+
+/**
+ * Map items with at most `limit` in flight; results keep the input order
+ */
+async function runWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Lines of a newline-delimited JSON response body
+ */
+async function* readJsonLines(provider: string, response: Response): AsyncGenerator<string> {
+  await checkResponse(provider, response);
+  if (!response.body) {
+    throw new LLMProviderError(provider, 'empty stream body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield line;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Server-sent events from a streaming LLM response body
+ */
+async function* readServerSentEvents(provider: string, response: Response): AsyncGenerator<{ event?: string; data: string }> {
+  await checkResponse(provider, response);
+  if (!response.body) {
+    throw new LLMProviderError(provider, 'empty stream body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Events are separated by a blank line; the last piece may be incomplete
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        let event: string | undefined;
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+        }
+        if (data.length > 0) yield { event, data: data.join('\n') };
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Agent Handoff — Context transfer when routing switches agents
+ *
+ * The outgoing agent writes a structured note (facts it verified, actions
+ * it took, promises still open) for the incoming agent. The note is built
+ * from the session first (its tool calls and replies), then the outgoing
+ * agent's LLM may rewrite it; an unusable LLM answer keeps the session note.
+ */
+
+import type { Session, ToolCall } from '../memory';
+
+export interface HandoffNote {
+  from: string;
+  to: string;
+  reason: string;
+  factsVerified: string[];
+  actionsTaken: string[];
+  pendingPromises: string[];
+  source: 'agent' | 'session'; // Written by the outgoing agent's LLM, or built from the session
+  timestamp: string;
+}
+
+export type HandoffContent = Pick<HandoffNote, 'factsVerified' | 'actionsTaken' | 'pendingPromises'>;
+
+// Items kept per list, so a long session does not flood the next prompt
+const MAX_ITEMS = 6;
+const PREVIEW_CHARS = 120;
+
+// Sentences in which an agent commits to something
+const PROMISE = /\b(I will|I'll|we will|we'll|I am going to|I'm going to|you will receive|you'll receive|expect|within \d+)\b/i;
+
+export const HANDOFF_BRIEF = `Another specialist is taking over this conversation. Write a handoff note for them.
+Respond with JSON only: {"facts_verified": ["..."], "actions_taken": ["..."], "pending_promises": ["..."]}
+- facts_verified: what you confirmed with tools (order status, subscription state, ...)
+- actions_taken: changes you made (refunds, cancellations, tags, ...)
+- pending_promises: anything you told the customer would still happen
+Use empty lists where nothing applies. Do not invent facts.`;
+
+/**
+ * Handoff content from the session: the outgoing agent's tool calls and replies
+ */
+export function buildHandoffContent(session: Session, from: string): HandoffContent {
+  const calls = session.toolCalls.filter(t => t.agentId === from);
+
+  const factsVerified = calls
+    .filter(t => isLookup(t.toolHandle))
+    .map(t => `${t.toolHandle}(${formatParams(t.params)}): ${t.result.success ? preview(t.result.data) : `failed (${t.result.error})`}`);
+
+  const actionsTaken = calls
+    .filter(t => !isLookup(t.toolHandle))
+    .map(t => `${t.toolHandle}(${formatParams(t.params)}): ${t.result.success ? 'done' : `failed (${t.result.error})`}`);
+
+  const pendingPromises = session.messages
+    .filter(m => m.role === 'agent' && m.author === from)
+    .flatMap(m => m.content.split(/(?<=[.!?])\s+/))
+    .filter(sentence => PROMISE.test(sentence))
+    .map(sentence => sentence.trim().slice(0, PREVIEW_CHARS));
+
+  return {
+    factsVerified: factsVerified.slice(-MAX_ITEMS),
+    actionsTaken: actionsTaken.slice(-MAX_ITEMS),
+    pendingPromises: pendingPromises.slice(-MAX_ITEMS)
+  };
+}
+
+/**
+ * Read the outgoing agent's JSON note; undefined when it is not usable
+ */
+export function parseHandoffContent(content: string | null): HandoffContent | undefined {
+  const json = content?.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return undefined;
+
+  try {
+    const parsed = JSON.parse(json) as Record<string, unknown>;
+    const lists = [parsed.facts_verified, parsed.actions_taken, parsed.pending_promises];
+    if (!lists.every(Array.isArray)) return undefined;
+
+    const [factsVerified, actionsTaken, pendingPromises] = lists.map(list =>
+      (list as unknown[]).filter((item): item is string => typeof item === 'string' && item.trim() !== '').slice(0, MAX_ITEMS)
+    );
+    return { factsVerified, actionsTaken, pendingPromises };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Prompt section for the incoming agent
+ */
+export function formatHandoffNote(note: HandoffNote): string {
+  const section = (title: string, items: string[]) =>
+    `${title}:\n${items.length > 0 ? items.map(i => `- ${i}`).join('\n') : '- none'}`;
+
+  return `\n\nHANDOFF FROM ${note.from} (${note.reason}):
+${section('Facts verified', note.factsVerified)}
+${section('Actions taken', note.actionsTaken)}
+${section('Pending promises (honor these)', note.pendingPromises)}
+Do not repeat lookups or actions listed above unless something changed.`;
+}
+
+function isLookup(toolHandle: string): boolean {
+  return toolHandle.includes('_get_');
+}
+
+function formatParams(params: ToolCall['params']): string {
+  return Object.entries(params)
+    .filter(([, value]) => typeof value !== 'object')
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+}
+
+function preview(data: unknown): string {
+  const text = JSON.stringify(data ?? null);
+  return text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}…` : text;
+}
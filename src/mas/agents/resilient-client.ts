@@ -0,0 +1,253 @@
+/**
+ * Resilient LLM Client — Retries, timeouts and provider failover
+ *
+ * Wraps the configured providers in order. A call is retried on the same
+ * provider with exponential backoff while the failure is transient (429,
+ * 5xx, timeout, network error, malformed JSON); then the next provider takes
+ * over. Every attempt is recorded as an 'llm' trace event on the session.
+ */
+
+import type { LLMClient, LLMMessage, LLMRequestOptions, LLMResponse, StreamingLLMClient } from './executor';
+import { tracer } from '../tracing';
+
+export interface LLMProvider {
+  name: string; // anthropic, openai, google, local, ...
+  client: LLMClient;
+}
+
+export interface RetryPolicy {
+  maxRetries: number; // Retries per provider after the first attempt
+  baseDelayMs: number; // Backoff before retry n is baseDelayMs * 2^(n-1)
+  maxDelayMs: number;
+  timeoutMs: number; // Per attempt
+}
+
+export interface LLMAttempt {
+  provider: string;
+  model?: string;
+  attempt: number; // 1-based, per provider
+  success: boolean;
+  latencyMs: number;
+  status?: number;
+  error?: string;
+  retryInMs?: number; // Set when the same provider is tried again
+  failover?: string; // Provider tried next when this one gave up
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 30000
+};
+
+/**
+ * Failed provider call. `retryable` is false for requests that would fail
+ * the same way again (bad request, auth), which go straight to failover.
+ */
+export class LLMProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(provider: string, message: string, options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}) {
+    super(`${provider}: ${message}`);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = options.status;
+    this.retryable = options.retryable ?? (options.status === undefined || isRetryableStatus(options.status));
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Throw for a non-2xx provider response (body preview and Retry-After kept)
+ */
+export async function checkResponse(provider: string, response: Response): Promise<void> {
+  if (response.ok) return;
+
+  const detail = await response.text().catch(() => '');
+  const retryAfter = Number(response.headers.get('retry-after'));
+  throw new LLMProviderError(provider, `HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`, {
+    status: response.status,
+    retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+  });
+}
+
+/**
+ * Parse a provider's JSON body; a non-2xx status or unparseable body throws
+ */
+export async function readJsonResponse<T>(provider: string, response: Response): Promise<T> {
+  await checkResponse(provider, response);
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new LLMProviderError(provider, `malformed JSON: ${text.slice(0, 100)}`, { retryable: true });
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Transient failures worth another try on the same provider
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMProviderError) return error.retryable;
+  // Network failures (fetch TypeError), aborted attempts and broken JSON
+  return error instanceof TypeError || error instanceof SyntaxError || (error instanceof Error && error.name === 'AbortError');
+}
+
+/**
+ * Wrap providers with retries, per-attempt timeouts and ordered failover
+ */
+export function createResilientClient(
+  providers: LLMProvider[],
+  policy: Partial<RetryPolicy> = {},
+  sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+): StreamingLLMClient {
+  if (providers.length === 0) {
+    throw new Error('Resilient LLM client needs at least one provider');
+  }
+  const settings: RetryPolicy = {
+    maxRetries: policy.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries,
+    baseDelayMs: policy.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    timeoutMs: policy.timeoutMs ?? DEFAULT_RETRY_POLICY.timeoutMs
+  };
+
+  const call = async (
+    run: (client: LLMClient, options: LLMRequestOptions) => Promise<LLMResponse>,
+    options: LLMRequestOptions = {},
+    canRetry: () => boolean = () => true
+  ): Promise<LLMResponse> => {
+    const failures: string[] = [];
+
+    for (const [index, provider] of providers.entries()) {
+      // An agent's model names a model of the primary provider; fallbacks use their own default
+      const providerOptions = index === 0 ? options : { ...options, model: undefined };
+
+      for (let attempt = 1; attempt <= settings.maxRetries + 1; attempt++) {
+        const started = Date.now();
+        try {
+          const response = await withTimeout(
+            provider.name,
+            signal => run(provider.client, { ...providerOptions, signal }),
+            settings.timeoutMs,
+            options.signal
+          );
+          record(options.sessionId, {
+            provider: provider.name,
+            model: providerOptions.model,
+            attempt,
+            success: true,
+            latencyMs: Date.now() - started
+          });
+          return response;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          const retry = attempt <= settings.maxRetries && isRetryable(error) && canRetry() && !options.signal?.aborted;
+          const delay = retry ? backoff(settings, attempt, error) : undefined;
+          const next = !retry && canRetry() ? providers[index + 1]?.name : undefined;
+
+          record(options.sessionId, {
+            provider: provider.name,
+            model: providerOptions.model,
+            attempt,
+            success: false,
+            latencyMs: Date.now() - started,
+            status: error instanceof LLMProviderError ? error.status : undefined,
+            error: message,
+            retryInMs: delay,
+            failover: next
+          });
+
+          if (delay !== undefined) {
+            await sleep(delay);
+            continue;
+          }
+          failures.push(message);
+          // Tokens already went out; another provider would write a second reply
+          if (!canRetry()) throw error;
+          break;
+        }
+      }
+    }
+
+    throw new Error(`All LLM providers failed: ${failures.join('; ')}`);
+  };
+
+  return {
+    chat(messages: LLMMessage[], tools?: object[], options?: LLMRequestOptions) {
+      return call((client, o) => client.chat(messages, tools, o), options);
+    },
+
+    streamChat(messages: LLMMessage[], tools: object[] | undefined, onToken: (token: string) => void, options?: LLMRequestOptions) {
+      let streamed = false;
+      const forward = (token: string) => {
+        streamed = true;
+        onToken(token);
+      };
+
+      return call(async (client, o) => {
+        const streaming = client as Partial<StreamingLLMClient>;
+        if (streaming.streamChat) {
+          return streaming.streamChat.call(client, messages, tools, forward, o);
+        }
+        // Provider without streaming: the whole reply is one token
+        const response = await client.chat(messages, tools, o);
+        if (response.content) forward(response.content);
+        return response;
+      }, options, () => !streamed);
+    }
+  };
+}
+
+/**
+ * Delay before the next attempt: Retry-After when given, else exponential
+ */
+function backoff(policy: RetryPolicy, attempt: number, error: unknown): number {
+  const retryAfter = error instanceof LLMProviderError ? error.retryAfterMs : undefined;
+  return Math.min(policy.maxDelayMs, retryAfter ?? policy.baseDelayMs * 2 ** (attempt - 1));
+}
+
+/**
+ * Run with an abort signal that fires after timeoutMs (or with the caller's)
+ */
+async function withTimeout<T>(
+  provider: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parent?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const abortFromParent = () => controller.abort(parent?.reason);
+  parent?.addEventListener('abort', abortFromParent);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMProviderError(provider, `no response within ${timeoutMs}ms`, { retryable: true }));
+    }, timeoutMs);
+  });
+
+  try {
+    // The race also covers clients that ignore the signal
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', abortFromParent);
+  }
+}
+
+function record(sessionId: string | undefined, attempt: LLMAttempt): void {
+  if (sessionId) {
+    tracer.traceLLMAttempt(sessionId, attempt);
+  } else if (!attempt.success) {
+    console.log(`[LLM] ${attempt.provider} attempt ${attempt.attempt} failed: ${attempt.error}`);
+  }
+}
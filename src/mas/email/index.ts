@@ -0,0 +1,240 @@
+/**
+ * Inbound Email — Parse raw RFC 5322 / MIME messages
+ *
+ * Turns a raw email into what the runtime needs:
+ * sender, thread keys (Message-ID / In-Reply-To / References) and
+ * the new reply text with quoted history and signatures removed.
+ */
+
+export interface EmailAddress {
+  email: string;
+  name: string;
+}
+
+export interface ParsedEmail {
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  from: EmailAddress;
+  to: EmailAddress[];
+  subject: string;
+  date?: string;
+  headers: Record<string, string>;
+  text: string;
+  html?: string;
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Markers that start quoted history in a reply (everything after is dropped)
+ */
+const QUOTE_MARKERS: RegExp[] = [
+  /-{2,}\s*Original message\s*-{2,}/i,
+  /-{2,}\s*Forwarded message\s*-{2,}/i,
+  /^_{10,}\s*$/m,
+  /^On\s.+\bwrote:\s*$/m,
+  /^From:\s.+\r?\n(?:.+\r?\n)*?Sent:\s/m
+];
+
+/**
+ * Parse a raw email message
+ */
+export function parseEmail(raw: string): ParsedEmail {
+  const root = parsePart(raw);
+  const headers = root.headers;
+
+  const { text, html } = extractBodies(root);
+
+  return {
+    messageId: headers['message-id']?.trim(),
+    inReplyTo: headers['in-reply-to']?.trim(),
+    references: (headers['references'] || '').match(/<[^>]+>/g) || [],
+    from: parseAddress(headers['from'] || ''),
+    to: (headers['to'] || '').split(',').filter(a => a.trim()).map(parseAddress),
+    subject: headers['subject'] || '',
+    date: headers['date'],
+    headers,
+    text: text ?? (html ? htmlToText(html) : ''),
+    html
+  };
+}
+
+/**
+ * Parse an address header: `"Jane Doe" <jane@example.com>` or `jane@example.com`
+ */
+export function parseAddress(value: string): EmailAddress {
+  const angle = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>/);
+  if (angle) {
+    return { name: angle[1].trim(), email: angle[2].trim().toLowerCase() };
+  }
+  const bare = value.match(/[\w.+-]+@[\w.-]+\.\w+/);
+  return { name: '', email: bare ? bare[0].toLowerCase() : '' };
+}
+
+/**
+ * Split a display name into first/last, dropping honorifics
+ */
+export function splitName(name: string): { firstName: string; lastName: string } {
+  const parts = name
+    .split(/\s+/)
+    .filter(p => p && !/^(mr|mrs|ms|miss|dr)\.?$/i.test(p));
+  return {
+    firstName: parts[0] || '',
+    lastName: parts.slice(1).join(' ')
+  };
+}
+
+/**
+ * Keep only the new text of a reply: drop quoted history, `>` lines and signatures
+ */
+export function extractReplyText(text: string): string {
+  let reply = text.replace(/\r\n/g, '\n');
+
+  // Cut at the earliest quote marker
+  let cut = reply.length;
+  for (const marker of QUOTE_MARKERS) {
+    const match = marker.exec(reply);
+    if (match && match.index < cut) cut = match.index;
+  }
+  reply = reply.slice(0, cut);
+
+  // Drop `>` quoted lines
+  reply = reply
+    .split('\n')
+    .filter(line => !line.trimStart().startsWith('>'))
+    .join('\n');
+
+  // Standard signature delimiter, then mobile signatures
+  const sigIndex = reply.search(/^-- ?$/m);
+  if (sigIndex >= 0) reply = reply.slice(0, sigIndex);
+  reply = reply.replace(/\s*Sent from my [^\n]*\s*$/i, '');
+
+  return reply.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Parse headers + body of one MIME entity
+ */
+function parsePart(raw: string): MimePart {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const split = normalized.indexOf('\n\n');
+  const headerBlock = split >= 0 ? normalized.slice(0, split) : normalized;
+  const body = split >= 0 ? normalized.slice(split + 2) : '';
+
+  const headers: Record<string, string> = {};
+  // Unfold continuation lines before splitting
+  for (const line of headerBlock.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers[name] = decodeEncodedWords(line.slice(colon + 1).trim());
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Walk the MIME tree and return the first text/plain and text/html bodies
+ */
+function extractBodies(part: MimePart): { text?: string; html?: string } {
+  const { type, params } = parseContentType(part.headers['content-type']);
+
+  if (type.startsWith('multipart/') && params.boundary) {
+    const result: { text?: string; html?: string } = {};
+    for (const child of splitMultipart(part.body, params.boundary)) {
+      const bodies = extractBodies(parsePart(child));
+      result.text = result.text ?? bodies.text;
+      result.html = result.html ?? bodies.html;
+    }
+    return result;
+  }
+
+  // Attachments never count as the message body
+  if ((part.headers['content-disposition'] || '').toLowerCase().startsWith('attachment')) {
+    return {};
+  }
+
+  const decoded = decodeBody(part.body, part.headers['content-transfer-encoding'], params.charset);
+  if (type === 'text/html') return { html: decoded };
+  if (type === 'text/plain') return { text: decoded };
+  return {};
+}
+
+function parseContentType(value: string | undefined): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = (value || 'text/plain').split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq < 0) continue;
+    params[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"|"$/g, '');
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  for (const chunk of body.split(delimiter).slice(1)) {
+    if (chunk.startsWith('--')) break; // closing delimiter
+    parts.push(chunk.replace(/^[ \t]*\n/, ''));
+  }
+  return parts;
+}
+
+function decodeBody(body: string, encoding: string | undefined, charset: string = 'utf-8'): string {
+  const enc = (encoding || '7bit').toLowerCase();
+  const bufferEncoding = /^(iso-8859-1|latin1|us-ascii|windows-1252)$/i.test(charset) ? 'latin1' : 'utf-8';
+
+  if (enc === 'base64') {
+    return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString(bufferEncoding);
+  }
+  if (enc === 'quoted-printable') {
+    return decodeQuotedPrintable(body, bufferEncoding);
+  }
+  return body;
+}
+
+function decodeQuotedPrintable(body: string, bufferEncoding: BufferEncoding): string {
+  // Runs of =XX escapes are decoded together so multi-byte characters survive
+  return body
+    .replace(/=\n/g, '')
+    .replace(/(?:=[0-9A-Fa-f]{2})+/g, run =>
+      Buffer.from(run.slice(1).split('=').map(hex => parseInt(hex, 16))).toString(bufferEncoding)
+    );
+}
+
+/**
+ * Decode RFC 2047 encoded words in headers: =?utf-8?B?...?= / =?utf-8?Q?...?=
+ */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, mode: string, text: string) => {
+      const bufferEncoding = /utf-?8/i.test(charset) ? 'utf-8' : 'latin1';
+      if (mode.toUpperCase() === 'B') {
+        return Buffer.from(text, 'base64').toString(bufferEncoding);
+      }
+      return decodeQuotedPrintable(text.replace(/_/g, ' '), bufferEncoding);
+    });
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .trim();
+}
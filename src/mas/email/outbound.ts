@@ -0,0 +1,204 @@
+/**
+ * Outbound Email — Render agent replies as complete MIME messages
+ *
+ * Adds greeting, brand signature and footer, threads the reply onto the
+ * customer's email (Re: subject, In-Reply-To, References) and produces
+ * plain + HTML alternatives ready for an SMTP relay.
+ */
+
+import { BrandContext, BrandEmailConfig } from '../../meta/agent-generator';
+import { Session } from '../memory';
+
+export interface OutboundEmail {
+  messageId: string;
+  from: string;
+  to: string;
+  subject: string;
+  inReplyTo?: string;
+  references: string[];
+  text: string;
+  html: string;
+  raw: string;
+}
+
+export interface RenderReplyParams {
+  session: Session;
+  reply: string;
+  brand: BrandContext;
+}
+
+const GREETING_PATTERN = /^(hi|hello|hey|dear|good (morning|afternoon|evening))\b/i;
+
+/**
+ * Render an agent reply as a threaded multipart email
+ */
+export function renderReplyEmail(params: RenderReplyParams): OutboundEmail {
+  const { session, brand } = params;
+  const email = getBrandEmail(brand);
+  const thread = getThreadHeaders(session);
+
+  const body = composeBody(params.reply, session.customerFirstName, email);
+  const text = email.footer ? `${body}\n\n--\n${email.footer}` : body;
+  const html = renderHtml(body, email.footer);
+
+  const domain = email.fromAddress.split('@')[1] || 'localhost';
+  const messageId = `<${Date.now()}.${Math.random().toString(36).slice(2, 10)}@${domain}>`;
+  const from = formatAddress(email.fromName, email.fromAddress);
+  const to = formatAddress(`${session.customerFirstName} ${session.customerLastName}`.trim(), session.customerEmail);
+  const subject = replySubject(thread.subject || `Your ${brand.name} support request`);
+
+  const raw = buildMime({
+    messageId,
+    from,
+    to,
+    subject,
+    inReplyTo: thread.inReplyTo,
+    references: thread.references,
+    text,
+    html
+  });
+
+  return {
+    messageId,
+    from,
+    to,
+    subject,
+    inReplyTo: thread.inReplyTo,
+    references: thread.references,
+    text,
+    html,
+    raw
+  };
+}
+
+/**
+ * Prefix `Re:` once, whatever the client used before (RE:, Re:, re:)
+ */
+export function replySubject(subject: string): string {
+  const stripped = subject.replace(/^\s*(re|aw|fwd?):\s*/i, '');
+  return `Re: ${stripped}`;
+}
+
+/**
+ * Brand email settings, with defaults for brands that define none
+ */
+function getBrandEmail(brand: BrandContext): BrandEmailConfig {
+  return brand.email || {
+    fromName: `${brand.name} Support`,
+    fromAddress: process.env.SUPPORT_EMAIL || `support@${brand.name.toLowerCase().replace(/[^a-z0-9]+/g, '')}.com`,
+    signature: `The ${brand.name} Support Team`
+  };
+}
+
+/**
+ * Subject and Message-IDs recorded on inbound customer messages
+ */
+function getThreadHeaders(session: Session): { subject?: string; inReplyTo?: string; references: string[] } {
+  const inbound = session.messages.filter(m => m.role === 'customer' && m.metadata);
+  const references: string[] = [];
+  let subject: string | undefined;
+  let inReplyTo: string | undefined;
+
+  for (const message of inbound) {
+    const meta = message.metadata as { messageId?: string; subject?: string; references?: string[] };
+    for (const ref of [...(meta.references || []), meta.messageId]) {
+      if (ref && !references.includes(ref)) references.push(ref);
+    }
+    subject = subject || meta.subject;
+    inReplyTo = meta.messageId || inReplyTo;
+  }
+
+  return { subject, inReplyTo, references };
+}
+
+function composeBody(reply: string, firstName: string, email: BrandEmailConfig): string {
+  let body = reply.trim();
+
+  if (!GREETING_PATTERN.test(body)) {
+    body = `Hi ${firstName || 'there'},\n\n${body}`;
+  }
+
+  // The agent may already have signed off
+  const firstSignatureLine = email.signature.split('\n')[0];
+  if (!body.includes(firstSignatureLine)) {
+    body = `${body}\n\n${email.signature}`;
+  }
+
+  return body;
+}
+
+function renderHtml(body: string, footer?: string): string {
+  const paragraphs = body
+    .split(/\n{2,}/)
+    .map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+  const footerHtml = footer
+    ? `\n<hr>\n<p style="color:#888;font-size:12px">${escapeHtml(footer)}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<body style="font-family:Arial,sans-serif;font-size:14px;line-height:1.5">
+${paragraphs}${footerHtml}
+</body>
+</html>`;
+}
+
+function buildMime(email: Omit<OutboundEmail, 'raw'>): string {
+  const boundary = `alt_${Math.random().toString(36).slice(2, 12)}`;
+  const headers = [
+    `From: ${email.from}`,
+    `To: ${email.to}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${email.messageId}`,
+    ...(email.inReplyTo ? [`In-Reply-To: ${email.inReplyTo}`] : []),
+    ...(email.references.length > 0 ? [`References: ${email.references.join(' ')}`] : []),
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`
+  ];
+
+  return [
+    ...headers,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64(email.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64(email.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+function formatAddress(name: string, address: string): string {
+  if (!name) return address;
+  const encoded = encodeHeader(name.replace(/"/g, ''));
+  return encoded.startsWith('=?') ? `${encoded} <${address}>` : `"${encoded}" <${address}>`;
+}
+
+/**
+ * RFC 2047 encode non-ASCII header values
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?utf-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+}
+
+function encodeBase64(content: string): string {
+  return Buffer.from(content, 'utf-8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
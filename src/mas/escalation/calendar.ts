@@ -0,0 +1,160 @@
+/**
+ * Support Calendar — When the human team can actually answer
+ *
+ * The brand calendar (timezone, weekly hours, holidays) turns an SLA in
+ * minutes into a due time that only counts staffed hours, and picks the
+ * escalation message for the current support status, so a customer writing
+ * at 3am on a holiday is not promised a reply "shortly".
+ */
+
+import type { EscalationConfig, SupportCalendar } from '../../meta/agent-generator';
+
+export type SupportStatus = 'open' | 'after_hours' | 'holiday';
+
+export interface SupportWindow {
+  status: SupportStatus;
+  holiday?: string; // Holiday name when status is 'holiday'
+}
+
+export interface EscalationEta {
+  status: SupportStatus;
+  holiday?: string;
+  dueAt: Date;
+  expectedResponse: string; // "within 2 hours", "by Monday, Jan 5, 9:00 AM CST"
+}
+
+export const DEFAULT_ESCALATION_MESSAGES: Required<NonNullable<EscalationConfig['customerMessages']>> = {
+  open: 'I\'m escalating this to our team for further review. A specialist will reply {eta}.',
+  afterHours: 'I\'m escalating this to our team. They are offline right now, so a specialist will reply {eta}.',
+  holiday: 'I\'m escalating this to our team. Our office is closed for {holiday}, so a specialist will reply {eta}.'
+};
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+const MINUTE_MS = 60 * 1000;
+
+// Safety stop for calendars with no staffed hours at all
+const MAX_STEPS = 400;
+
+interface LocalTime {
+  date: string; // YYYY-MM-DD
+  weekday: typeof WEEKDAYS[number];
+  minutes: number; // Since local midnight
+}
+
+/**
+ * Support status at a moment
+ */
+export function supportWindow(calendar: SupportCalendar, at: Date = new Date()): SupportWindow {
+  const local = localTime(calendar.timezone, at);
+  const holiday = calendar.holidays.find(h => h.date === local.date);
+  if (holiday) return { status: 'holiday', holiday: holiday.name };
+
+  const hours = openingHours(calendar, local);
+  return hours && local.minutes >= hours.open && local.minutes < hours.close
+    ? { status: 'open' }
+    : { status: 'after_hours' };
+}
+
+/**
+ * Add SLA minutes counting only staffed hours
+ */
+export function addSupportMinutes(calendar: SupportCalendar, from: Date, minutes: number): Date {
+  let cursor = from.getTime();
+  let remaining = minutes;
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const local = localTime(calendar.timezone, new Date(cursor));
+    const closed = calendar.holidays.some(h => h.date === local.date);
+    const hours = closed ? undefined : openingHours(calendar, local);
+
+    if (hours && local.minutes >= hours.open && local.minutes < hours.close) {
+      const available = hours.close - local.minutes;
+      if (remaining <= available) return new Date(cursor + remaining * MINUTE_MS);
+      remaining -= available;
+      cursor += available * MINUTE_MS;
+    } else if (hours && local.minutes < hours.open) {
+      cursor += (hours.open - local.minutes) * MINUTE_MS;
+    } else {
+      // Next local midnight (re-checked, so DST shifts correct themselves)
+      cursor += (24 * 60 - local.minutes) * MINUTE_MS;
+    }
+  }
+  throw new Error(`Support calendar has no staffed hours (${calendar.timezone})`);
+}
+
+/**
+ * Due time and customer-facing ETA for an escalation raised now
+ */
+export function escalationEta(calendar: SupportCalendar, slaMinutes: number, now: Date = new Date()): EscalationEta {
+  const window = supportWindow(calendar, now);
+  const dueAt = addSupportMinutes(calendar, now, slaMinutes);
+  return { ...window, dueAt, expectedResponse: describeEta(calendar, now, dueAt) };
+}
+
+/**
+ * Fill the message template for the support status
+ */
+export function escalationMessage(eta: EscalationEta, templates: EscalationConfig['customerMessages'] = {}): string {
+  const template = eta.status === 'open'
+    ? templates.open ?? DEFAULT_ESCALATION_MESSAGES.open
+    : eta.status === 'holiday'
+      ? templates.holiday ?? DEFAULT_ESCALATION_MESSAGES.holiday
+      : templates.afterHours ?? DEFAULT_ESCALATION_MESSAGES.afterHours;
+  return template
+    .replace(/\{eta\}/g, eta.expectedResponse)
+    .replace(/\{holiday\}/g, eta.holiday ?? 'the holiday');
+}
+
+/**
+ * "within N hours" for replies later today, otherwise the local due time
+ */
+function describeEta(calendar: SupportCalendar, now: Date, dueAt: Date): string {
+  const minutes = Math.ceil((dueAt.getTime() - now.getTime()) / MINUTE_MS);
+  if (localTime(calendar.timezone, now).date === localTime(calendar.timezone, dueAt).date) {
+    if (minutes < 60) return `within ${minutes} minute${minutes === 1 ? '' : 's'}`;
+    const hours = Math.ceil(minutes / 60);
+    return `within ${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+
+  const formatted = new Intl.DateTimeFormat('en-US', {
+    timeZone: calendar.timezone,
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  }).format(dueAt);
+  return `by ${formatted}`;
+}
+
+function openingHours(calendar: SupportCalendar, local: LocalTime): { open: number; close: number } | undefined {
+  const day = calendar.hours[local.weekday];
+  if (!day) return undefined;
+  return { open: clockMinutes(day.open), close: clockMinutes(day.close) };
+}
+
+function clockMinutes(clock: string): number {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function localTime(timezone: string, at: Date): LocalTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(at).map(p => [p.type, p.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: parts.weekday.toLowerCase().slice(0, 3) as LocalTime['weekday'],
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+}
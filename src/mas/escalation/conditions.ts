@@ -0,0 +1,262 @@
+/**
+ * Escalation Conditions — Workflow manual conditions as predicates
+ *
+ * The manual's escalation column ("Order already shipped", "Outside return
+ * window", "Health claims", ...) is compiled into predicates over session
+ * state, order data from tool results and the customer's message. The
+ * orchestrator evaluates them on every turn, so escalation does not depend
+ * on the LLM reading its system prompt. Conditions no rule understands stay
+ * prompt-only and are reported as uncompiled.
+ */
+
+import type { Session } from '../memory';
+import { SentimentThresholds, sentimentEscalationReason } from '../memory/sentiment';
+
+export interface ConditionContext {
+  session: Session;
+  message: string;
+  now?: number;
+}
+
+export interface CompiledCondition {
+  condition: string; // Text from the workflow manual
+  kind: string; // Rule that compiled it
+  evaluate(context: ConditionContext): string | undefined; // Evidence when the condition holds
+}
+
+export interface CompileOptions {
+  returnWindowDays?: number;
+  sentiment?: Partial<SentimentThresholds> & { enabled?: boolean };
+}
+
+export interface CompiledConditions {
+  compiled: CompiledCondition[];
+  uncompiled: string[];
+}
+
+export const DEFAULT_RETURN_WINDOW_DAYS = 30;
+
+type Predicate = (context: ConditionContext) => string | undefined;
+
+interface ConditionRule {
+  kind: string;
+  matches: RegExp; // Tested against the condition text
+  build(condition: string, options: CompileOptions & { returnWindowDays: number }): Predicate;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Order states after which the order can no longer be changed
+const SHIPPED_STATUSES = /^(fulfilled|partially_fulfilled|shipped|in_transit|out_for_delivery|delivered)$/i;
+const STATUS_KEYS = /^(status|fulfillment_?status|display_?fulfillment_?status)$/i;
+const DATE_KEYS = /^(created_?at|processed_?at|order_?date)$/i;
+
+// Customer wording per topic
+const CHANGE_REQUEST = /\b(cancel\w*|change|update|modify|edit|different address|new address|redirect)\b/i;
+const RETURN_REQUEST = /\b(return\w*|refund\w*|exchange|send (it|them) back|money back)\b/i;
+const MISSING_ITEM = /\b(items?|products?|patch(es)?|pieces?|packs?|boxes?)\b[^.!?]{0,30}\bmissing\b|\bmissing\b[^.!?]{0,20}\b(items?|products?|patch(es)?|pieces?|packs?|boxes?)\b|\bonly (got|received) (part|some|half|one|\d+)\b|\bincomplete (order|package|parcel)\b/i;
+const MISSING_ITEMS = /\b(items|products|patches|pieces|packs|boxes)\b[^.!?]{0,30}\bmissing\b|\bmissing\b[^.!?]{0,20}\b(items|products|patches|pieces|packs|boxes)\b|\bonly (got|received) (part|some|half|\d+)\b|\bincomplete (order|package|parcel)\b/i;
+const NOT_RECEIVED = /\b(not|never|haven'?t|hasn'?t|didn'?t|did not|have not) (been )?(received|arrived|got|gotten|come|delivered)\b|\b(lost|stolen|missing) (package|parcel|order)\b/i;
+
+/**
+ * Message rule: the condition holds when the customer's message matches
+ */
+function messageRule(kind: string, matches: RegExp, wording: RegExp, also?: RegExp): ConditionRule {
+  return {
+    kind,
+    matches,
+    build: () => ({ message }) => {
+      const hit = message.match(wording)?.[0];
+      if (!hit || (also && !also.test(message))) return undefined;
+      return `customer wrote "${hit}"`;
+    }
+  };
+}
+
+// First rule whose pattern matches the condition text compiles it
+const CONDITION_RULES: ConditionRule[] = [
+  {
+    kind: 'intent-spread',
+    matches: /cannot determine/i,
+    build: () => ({ session }) => {
+      const history = session.context.intentHistory;
+      const unique = new Set(history);
+      if (history.length <= 3 || unique.size < 3) return undefined;
+      return `multiple intents: ${unique.size} across ${history.length} messages`;
+    }
+  },
+  {
+    kind: 'sentiment',
+    matches: /frustrat|angry|upset/i,
+    build: (_, options) => ({ session }) => options.sentiment?.enabled === false
+      ? undefined
+      : sentimentEscalationReason(session.context.sentiment, options.sentiment)
+  },
+  {
+    kind: 'order-shipped',
+    matches: /already (shipped|fulfilled|dispatched)/i,
+    build: () => ({ session, message }) => {
+      const status = orderStatuses(session).find(s => SHIPPED_STATUSES.test(s));
+      if (!status || !CHANGE_REQUEST.test(message)) return undefined;
+      return `order is ${status} and customer asked to change it`;
+    }
+  },
+  {
+    kind: 'repeated-request',
+    matches: /insist/i,
+    build: () => ({ session }) => {
+      const recent = session.context.intentHistory.slice(-3);
+      if (recent.length < 3 || new Set(recent).size > 1) return undefined;
+      return `customer asked about ${recent[0]} ${recent.length} times`;
+    }
+  },
+  {
+    kind: 'order-age',
+    matches: /return window|more than \d+ days/i,
+    build: (condition, options) => {
+      const days = Number(condition.match(/more than (\d+) days/i)?.[1]) || options.returnWindowDays;
+      return ({ session, message, now }) => {
+        const age = orderAgeDays(session, now ?? Date.now());
+        if (age === undefined || age <= days || !RETURN_REQUEST.test(message)) return undefined;
+        return `order placed ${age} days ago (limit ${days})`;
+      };
+    }
+  },
+  {
+    kind: 'order-not-found',
+    matches: /cannot find order|order not found/i,
+    build: () => ({ session }) => {
+      const lookups = session.toolCalls.filter(t => isOrderTool(t.toolHandle));
+      const failed = lookups.filter(t => !t.result.success);
+      if (lookups.length === 0 || failed.length < lookups.length) return undefined;
+      return `${failed.length} order lookup(s) failed`;
+    }
+  },
+  {
+    kind: 'delivery-dispute',
+    matches: /delivered but not received|disputes delivery|lost package/i,
+    build: () => ({ session, message }) => {
+      const hit = message.match(NOT_RECEIVED)?.[0];
+      if (!hit || !orderStatuses(session).some(s => /delivered|fulfilled/i.test(s))) return undefined;
+      return `order shows delivered, customer wrote "${hit}"`;
+    }
+  },
+  messageRule('human-request', /requests? (a )?(human|manager)|requests manager/i,
+    /\b(human|real person|manager|supervisor|live agent)\b/i),
+  messageRule('legal', /legal|regulatory|lawsuit/i,
+    /\b(lawyer|attorney|solicitor|legal action|lawsuit|sue|suing|court|trading standards|regulator|bbb)\b/i),
+  messageRule('health', /health|medical|allerg|ingredient|sensitivity/i,
+    /\b(allerg\w*|reaction|rash\w*|hives|swelling|hospital|doctor|medical|medication|pregnan\w*|asthma|eczema|sensitive skin)\b/i),
+  messageRule('fraud', /fraud|unauthori[sz]ed/i,
+    /\b(fraud\w*|unauthori[sz]ed|didn'?t authori[sz]e|never (signed up|ordered)|stolen card|scam)\b/i),
+  messageRule('past-charges', /past (subscription )?charges/i,
+    /\b(past|previous|last|earlier|old) (charges?|payments?|months?|billing)\b/i, RETURN_REQUEST),
+  messageRule('partial-cancellation', /partial (cancel|refund)/i,
+    /\b(only|part of|one of|some of|partial\w*|just one)\b/i, /\b(cancel\w*|refund\w*)\b/i),
+  messageRule('billing-dispute', /dispute|billing/i,
+    /\b(dispute\w*|chargeback|charged twice|double charged|overcharged|billing error|wrong amount)\b/i),
+  messageRule('refund-without-return', /without return/i,
+    /\b(keep (it|them)|not (sending|returning)|without (a )?return\w*)\b/i, RETURN_REQUEST),
+  messageRule('damaged', /damage/i,
+    /\b(damaged|broken|crushed|torn|leak\w*|defective)\b/i),
+  messageRule('opened-product', /opened/i,
+    /\b(opened|used (it|them|some)|tried (it|them))\b/i, RETURN_REQUEST),
+  {
+    // "Item missing" / "Multiple items missing": a multiple in the condition
+    // needs more than one item reported missing
+    kind: 'missing-items',
+    matches: /\b(items?|products?)\b.*\bmissing\b|\bmissing\b.*\b(items?|products?)\b/i,
+    build: condition => {
+      const wording = /\b(multiple|several|many)\b/i.test(condition) ? MISSING_ITEMS : MISSING_ITEM;
+      return ({ message }) => {
+        const hit = message.match(wording)?.[0];
+        return hit ? `customer wrote "${hit}"` : undefined;
+      };
+    }
+  },
+  messageRule('wrong-address', /wrong address/i,
+    /\bwrong (address|house|door|person)\b/i),
+  messageRule('international', /international|customs|country/i,
+    /\b(customs|import (duty|tax|fees?)|international\w*|another country|different country|abroad|overseas)\b/i)
+];
+
+/**
+ * Compile one condition; undefined when no rule understands it
+ */
+export function compileCondition(condition: string, options: CompileOptions = {}): CompiledCondition | undefined {
+  const rule = CONDITION_RULES.find(r => r.matches.test(condition));
+  if (!rule) return undefined;
+
+  const evaluate = rule.build(condition, { ...options, returnWindowDays: options.returnWindowDays ?? DEFAULT_RETURN_WINDOW_DAYS });
+  return { condition, kind: rule.kind, evaluate };
+}
+
+/**
+ * Compile a list of conditions (duplicates removed)
+ */
+export function compileConditions(conditions: string[], options: CompileOptions = {}): CompiledConditions {
+  const compiled: CompiledCondition[] = [];
+  const uncompiled: string[] = [];
+  for (const condition of new Set(conditions.map(c => c.trim()).filter(Boolean))) {
+    const result = compileCondition(condition, options);
+    if (result) compiled.push(result);
+    else uncompiled.push(condition);
+  }
+  return { compiled, uncompiled };
+}
+
+/**
+ * First condition that holds, with its evidence
+ */
+export function evaluateConditions(
+  conditions: CompiledCondition[],
+  context: ConditionContext
+): { condition: CompiledCondition; evidence: string } | undefined {
+  for (const condition of conditions) {
+    const evidence = condition.evaluate(context);
+    if (evidence) return { condition, evidence };
+  }
+  return undefined;
+}
+
+function isOrderTool(handle: string): boolean {
+  return handle.startsWith('shopify_') && handle.includes('order');
+}
+
+/**
+ * Order data the session has seen: cached context plus successful order lookups
+ */
+function orderSources(session: Session): unknown[] {
+  return [
+    session.context.currentOrder,
+    ...(session.context.orderHistory ?? []),
+    ...session.toolCalls.filter(t => t.result.success && isOrderTool(t.toolHandle)).map(t => t.result.data)
+  ];
+}
+
+function orderStatuses(session: Session): string[] {
+  return orderSources(session).flatMap(source => findValues(source, STATUS_KEYS, 0));
+}
+
+/**
+ * Age in days of the newest order on record
+ */
+function orderAgeDays(session: Session, now: number): number | undefined {
+  const dates = orderSources(session)
+    .flatMap(source => findValues(source, DATE_KEYS, 0))
+    .map(value => Date.parse(value))
+    .filter(Number.isFinite);
+  if (dates.length === 0) return undefined;
+  return Math.floor((now - Math.max(...dates)) / DAY_MS);
+}
+
+function findValues(value: unknown, keys: RegExp, depth: number): string[] {
+  if (!value || typeof value !== 'object' || depth > 4) return [];
+
+  const found: string[] = [];
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    if (keys.test(key) && typeof child === 'string') found.push(child);
+    found.push(...findValues(child, keys, depth + 1));
+  }
+  return found;
+}
@@ -0,0 +1,278 @@
+/**
+ * Escalation Queue — Work queue for human agents
+ *
+ * Every escalation raised by the orchestrator becomes a queue item with a
+ * priority score (reason, customer value, order amount, sentiment), a tier
+ * and an SLA deadline. Items move open → assigned → claimed → completed.
+ */
+
+import { createHash } from 'crypto';
+import type { Session } from '../memory';
+import type { SupportCalendar } from '../../meta/agent-generator';
+import { customerProfiles } from '../memory/profiles';
+import { addSupportMinutes } from './calendar';
+
+export type EscalationPriority = 'urgent' | 'high' | 'normal' | 'low';
+
+export type EscalationItemStatus = 'open' | 'assigned' | 'claimed' | 'completed';
+
+export type EscalationCompletion = 'resolved' | 'handed_back';
+
+export interface PriorityBreakdown {
+  reason: number;
+  customerValue: number;
+  orderAmount: number;
+  sentiment: number;
+}
+
+export interface EscalationItem {
+  id: string;
+  sessionId: string;
+  customerEmail: string;
+  customerName: string;
+  reason: string;
+  score: number;
+  breakdown: PriorityBreakdown;
+  priority: EscalationPriority;
+  status: EscalationItemStatus;
+  assignee?: string;
+  createdAt: string;
+  slaMinutes: number; // Staffed minutes when the brand has a support calendar
+  slaDueAt: string;
+  assignedAt?: string;
+  claimedAt?: string;
+  completedAt?: string;
+  completion?: EscalationCompletion;
+  note?: string;
+}
+
+export interface EnqueueOptions {
+  // Customer sentiment in [-1, 1]; negative raises priority
+  sentiment?: number;
+  // Per-tier SLA overrides from EscalationConfig
+  slaMinutes?: Partial<Record<EscalationPriority, number>>;
+  // Brand support hours; the SLA clock stops outside them and the
+  // business-hour defaults apply
+  calendar?: SupportCalendar;
+  now?: number;
+}
+
+export const DEFAULT_SLA_MINUTES: Record<EscalationPriority, number> = {
+  urgent: 60,
+  high: 4 * 60,
+  normal: 24 * 60,
+  low: 48 * 60
+};
+
+// Staffed minutes per tier when a support calendar is set: a wall-clock day
+// of SLA is about one working day
+export const DEFAULT_BUSINESS_SLA_MINUTES: Record<EscalationPriority, number> = {
+  urgent: 60,
+  high: 4 * 60,
+  normal: 8 * 60,
+  low: 16 * 60
+};
+
+// Checked in order; first match sets the reason score
+const REASON_WEIGHTS: Array<{ pattern: RegExp; weight: number }> = [
+  { pattern: /legal|lawyer|attorney|lawsuit|chargeback|dispute|fraud/i, weight: 40 },
+  { pattern: /health|allerg|reaction|rash|injur|hospital|doctor|burn/i, weight: 40 },
+  { pattern: /tool failure/i, weight: 25 },
+  { pattern: /requested human/i, weight: 20 },
+  { pattern: /frustrated/i, weight: 20 },
+  { pattern: /multiple intents/i, weight: 15 }
+];
+const DEFAULT_REASON_WEIGHT = 10;
+
+// Score at which each tier starts (max score is 100)
+const PRIORITY_THRESHOLDS: Array<[EscalationPriority, number]> = [
+  ['urgent', 60],
+  ['high', 40],
+  ['normal', 20],
+  ['low', 0]
+];
+
+const AMOUNT_KEYS = /^(total_?price|total|amount|subtotal_?price)$/i;
+
+/**
+ * Item ID derived from the session and escalation time, so the queue rebuilt
+ * after a restart keeps the IDs already written into escalation summaries
+ */
+export function escalationItemId(sessionId: string, escalatedAt: number): string {
+  return `esc_${escalatedAt}_${createHash('sha256').update(sessionId).digest('hex').slice(0, 6)}`;
+}
+
+/**
+ * Escalation queue — in memory, keyed by item ID
+ */
+export class EscalationQueue {
+  private items: Map<string, EscalationItem> = new Map();
+
+  /**
+   * Queue an escalated session (returns the existing item if it is still open)
+   */
+  enqueue(session: Session, reason: string, options: EnqueueOptions = {}): EscalationItem {
+    const existing = this.getBySession(session.id);
+    if (existing) return existing;
+
+    const now = options.now ?? Date.now();
+    const breakdown = this.scorePriority(session, reason, options.sentiment);
+    const score = breakdown.reason + breakdown.customerValue + breakdown.orderAmount + breakdown.sentiment;
+    const priority = PRIORITY_THRESHOLDS.find(([, min]) => score >= min)![0];
+    const defaults = options.calendar ? DEFAULT_BUSINESS_SLA_MINUTES : DEFAULT_SLA_MINUTES;
+    const slaMinutes = options.slaMinutes?.[priority] ?? defaults[priority];
+
+    const item: EscalationItem = {
+      id: escalationItemId(session.id, now),
+      sessionId: session.id,
+      customerEmail: session.customerEmail,
+      customerName: `${session.customerFirstName} ${session.customerLastName}`.trim(),
+      reason,
+      score,
+      breakdown,
+      priority,
+      status: 'open',
+      createdAt: new Date(now).toISOString(),
+      slaMinutes,
+      slaDueAt: options.calendar
+        ? addSupportMinutes(options.calendar, new Date(now), slaMinutes).toISOString()
+        : new Date(now + slaMinutes * 60 * 1000).toISOString()
+    };
+
+    this.items.set(item.id, item);
+    console.log(`[Escalation] Queued ${item.id} for ${session.id}: ${priority} (score ${score})`);
+    return item;
+  }
+
+  /**
+   * Get item by ID
+   */
+  get(itemId: string): EscalationItem | undefined {
+    return this.items.get(itemId);
+  }
+
+  /**
+   * Current (not completed) item for a session
+   */
+  getBySession(sessionId: string): EscalationItem | undefined {
+    return Array.from(this.items.values()).find(i => i.sessionId === sessionId && i.status !== 'completed');
+  }
+
+  /**
+   * Work order: pending items first, then highest score, then earliest SLA deadline
+   */
+  list(status?: EscalationItemStatus): EscalationItem[] {
+    return Array.from(this.items.values())
+      .filter(i => (status ? i.status === status : true))
+      .sort((a, b) =>
+        Number(a.status === 'completed') - Number(b.status === 'completed') ||
+        b.score - a.score ||
+        a.slaDueAt.localeCompare(b.slaDueAt)
+      );
+  }
+
+  /**
+   * Pending items past their SLA deadline
+   */
+  getBreached(now: number = Date.now()): EscalationItem[] {
+    return this.list().filter(i => i.status !== 'completed' && Date.parse(i.slaDueAt) < now);
+  }
+
+  /**
+   * Assign an item to a named human agent (reassigning is allowed until claimed)
+   */
+  assign(itemId: string, humanAgent: string): EscalationItem {
+    const item = this.require(itemId);
+    if (item.status === 'claimed' || item.status === 'completed') {
+      throw new Error(`Cannot assign escalation in status ${item.status}`);
+    }
+
+    item.status = 'assigned';
+    item.assignee = humanAgent;
+    item.assignedAt = new Date().toISOString();
+    return item;
+  }
+
+  /**
+   * Mark the session's item as claimed (the human took over the thread)
+   */
+  markClaimed(sessionId: string, humanAgent: string): EscalationItem | undefined {
+    const item = this.getBySession(sessionId);
+    if (!item) return undefined;
+
+    item.status = 'claimed';
+    item.assignee = humanAgent;
+    item.claimedAt = new Date().toISOString();
+    return item;
+  }
+
+  /**
+   * Close the session's item
+   */
+  markCompleted(sessionId: string, completion: EscalationCompletion, note?: string): EscalationItem | undefined {
+    const item = this.getBySession(sessionId);
+    if (!item) return undefined;
+
+    item.status = 'completed';
+    item.completion = completion;
+    item.completedAt = new Date().toISOString();
+    item.note = note;
+    return item;
+  }
+
+  /**
+   * Clear all items (for testing)
+   */
+  clear(): void {
+    this.items.clear();
+  }
+
+  private require(itemId: string): EscalationItem {
+    const item = this.items.get(itemId);
+    if (!item) throw new Error(`Escalation not found: ${itemId}`);
+    return item;
+  }
+
+  private scorePriority(session: Session, reason: string, sentiment?: number): PriorityBreakdown {
+    const reasonWeight = REASON_WEIGHTS.find(w => w.pattern.test(reason))?.weight ?? DEFAULT_REASON_WEIGHT;
+
+    // Repeat customers: past conversations and orders on file
+    const profile = customerProfiles.getProfile({ email: session.customerEmail, shopifyCustomerId: session.shopifyCustomerId });
+    const pastSessions = profile?.sessions.filter(s => s.sessionId !== session.id).length ?? 0;
+    const orders = Math.max(session.context.orderHistory?.length ?? 0, session.context.mentionedOrderNumbers.length);
+    const customerValue = Math.min(20, pastSessions * 4 + orders * 2);
+
+    const amount = findOrderAmount(session);
+    const orderAmount = Math.min(20, Math.round(amount / 10));
+
+    const sentimentScore = sentiment !== undefined && sentiment < 0 ? Math.round(-sentiment * 20) : 0;
+
+    return { reason: reasonWeight, customerValue, orderAmount, sentiment: sentimentScore };
+  }
+}
+
+/**
+ * Largest order total seen in cached order data or order tool results
+ */
+function findOrderAmount(session: Session): number {
+  const sources: unknown[] = [
+    session.context.currentOrder,
+    ...(session.context.orderHistory ?? []),
+    ...session.toolCalls.filter(t => t.result.success && t.toolHandle.includes('order')).map(t => t.result.data)
+  ];
+  return Math.max(0, ...sources.map(s => maxAmount(s, 0)));
+}
+
+function maxAmount(value: unknown, depth: number): number {
+  if (!value || typeof value !== 'object' || depth > 4) return 0;
+
+  let max = 0;
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    const amount = AMOUNT_KEYS.test(key) ? Number(typeof child === 'object' ? undefined : child) : NaN;
+    max = Math.max(max, Number.isFinite(amount) ? amount : 0, maxAmount(child, depth + 1));
+  }
+  return max;
+}
+
+// Singleton instance
+export const escalationQueue = new EscalationQueue();
@@ -5,8 +5,16 @@
  */
 
 export * from './memory';
+export * from './memory/storage';
+export * from './memory/context-window';
+export * from './memory/profiles';
 export * from './tracing';
+export * from './tracing/stream';
 export * from './orchestrator';
+export * from './orchestrator/supervisor';
+export * from './escalation';
 export * from './tools/client';
 export * from './agents/executor';
+export * from './email';
+export * from './email/outbound';
 export * from './runtime';
@@ -0,0 +1,206 @@
+/**
+ * Context Window — Keep LLM prompts bounded on long email threads
+ *
+ * Recent messages are replayed verbatim. Older messages and their tool
+ * calls are folded into a running summary on SessionContext, and the
+ * window shrinks further until the prompt fits the agent's token budget.
+ */
+
+import type { Message, Session, ToolCall } from './index';
+import type { LLMMessage } from '../agents/executor';
+
+export interface ContextWindowConfig {
+  maxTurns: number;
+  tokenBudget: number;
+}
+
+export interface ConversationSummary {
+  lines: string[];
+  foldedMessages: number;
+  foldedToolCalls: number;
+  updatedAt: string;
+}
+
+export const DEFAULT_TOKEN_BUDGET = 6000;
+
+const SUMMARY_HEADER = '\n\nEARLIER IN THIS CONVERSATION (summarized):';
+const LINE_PREVIEW_CHARS = 160;
+const MIN_CUSTOMER_CHARS = 200; // The current message is never cut below this
+const CLIP_MARKER = '\n[…]\n';
+
+// System prompt sections the agent must always see (appended last by the executor)
+const PROTECTED_SECTIONS = ['\n\nCURRENT TASK:', '\n\nBOUNDARIES (must follow):'];
+
+/**
+ * Rough token estimate (~4 chars per token), good enough for budgeting
+ */
+export function estimateTokens(text: string | null): number {
+  return Math.ceil((text?.length ?? 0) / 4);
+}
+
+/**
+ * Builds bounded LLM message lists for a session
+ */
+export class ContextWindowManager {
+  private config: ContextWindowConfig;
+
+  constructor(config: ContextWindowConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Build messages: system prompt (+ summary), recent history, current message.
+   * The tool schemas sent alongside count against the budget too.
+   * Returns the updated summary so the caller can persist it.
+   */
+  build(session: Session, systemPrompt: string, customerMessage: string, tools: object[] = []): {
+    messages: LLMMessage[];
+    summary?: ConversationSummary;
+  } {
+    let summary = session.context.conversationSummary;
+    let history = this.pendingHistory(session, customerMessage, summary);
+    const budget = this.config.tokenBudget - (tools.length > 0 ? estimateTokens(JSON.stringify(tools)) : 0);
+
+    // Fold anything beyond the last maxTurns customer/agent turns
+    const overflow = this.turnStart(history, this.config.maxTurns);
+    if (overflow > 0) {
+      summary = this.fold(session, summary, history.slice(0, overflow));
+      history = history.slice(overflow);
+    }
+
+    // Shrink until the prompt fits the token budget
+    let messages = this.assemble(systemPrompt, summary, history, customerMessage);
+    while (this.countTokens(messages) > budget && history.length > 0) {
+      summary = this.fold(session, summary, history.slice(0, 1));
+      history = history.slice(1);
+      messages = this.assemble(systemPrompt, summary, history, customerMessage);
+    }
+
+    // Drop oldest summary lines; the folded counters stay so nothing is re-folded
+    while (this.countTokens(messages) > budget && summary && summary.lines.length > 0) {
+      summary = { ...summary, lines: summary.lines.slice(1) };
+      messages = this.assemble(systemPrompt, summary, history, customerMessage);
+    }
+
+    // Last resort: shorten the current message (keeping its start and end),
+    // then the context part of the system prompt; its task and boundaries stay
+    let overBy = this.countTokens(messages) - budget;
+    if (overBy > 0) {
+      const keepChars = Math.max(Math.min(customerMessage.length, MIN_CUSTOMER_CHARS), customerMessage.length - overBy * 4 - CLIP_MARKER.length);
+      messages[messages.length - 1] = { role: 'user', content: clipMiddle(customerMessage, keepChars) };
+      overBy = this.countTokens(messages) - budget;
+    }
+    if (overBy > 0) {
+      const system = messages[0].content ?? '';
+      const kept = protectedSectionsStart(system);
+      const context = system.slice(0, kept);
+      messages[0] = { role: 'system', content: context.slice(0, Math.max(0, context.length - overBy * 4)) + system.slice(kept) };
+    }
+
+    return { messages, summary };
+  }
+
+  /**
+   * Index where the last `turns` turns of history begin. A turn opens with a
+   * customer message and runs through the replies that follow it.
+   */
+  private turnStart(history: Message[], turns: number): number {
+    if (turns <= 0) return history.length;
+    let seen = 0;
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i].role !== 'customer' && i > 0) continue;
+      seen++;
+      if (seen === turns) return i;
+    }
+    return 0;
+  }
+
+  /**
+   * Messages not yet folded, excluding the current customer message
+   * (the runtime records it before the agent runs)
+   */
+  private pendingHistory(session: Session, customerMessage: string, summary?: ConversationSummary): Message[] {
+    const history = session.messages.slice(summary?.foldedMessages ?? 0);
+    const last = history[history.length - 1];
+    if (last && last.role === 'customer' && last.content === customerMessage) {
+      return history.slice(0, -1);
+    }
+    return history;
+  }
+
+  /**
+   * Append folded messages, and the tool calls made while they were current, to the summary
+   */
+  private fold(session: Session, summary: ConversationSummary | undefined, messages: Message[]): ConversationSummary {
+    const lines = [...(summary?.lines ?? [])];
+    let foldedToolCalls = summary?.foldedToolCalls ?? 0;
+    const cutoff = messages[messages.length - 1].timestamp;
+
+    const toolCalls = session.toolCalls.slice(foldedToolCalls).filter(t => t.timestamp <= cutoff);
+    const events: Array<{ timestamp: string; line: string }> = [
+      ...messages.map(m => ({ timestamp: m.timestamp, line: this.summarizeMessage(m) })),
+      ...toolCalls.map(t => ({ timestamp: t.timestamp, line: this.summarizeToolCall(t) }))
+    ];
+    events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    lines.push(...events.map(e => e.line));
+    foldedToolCalls += toolCalls.length;
+
+    return {
+      lines,
+      foldedMessages: (summary?.foldedMessages ?? 0) + messages.length,
+      foldedToolCalls,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private summarizeMessage(message: Message): string {
+    const speaker = message.role === 'customer' ? 'Customer' : message.role === 'agent' ? 'Agent' : 'System';
+    const text = message.content.replace(/\s+/g, ' ').trim();
+    const preview = text.length > LINE_PREVIEW_CHARS ? `${text.slice(0, LINE_PREVIEW_CHARS)}…` : text;
+    return `- ${speaker}: ${preview}`;
+  }
+
+  private summarizeToolCall(toolCall: ToolCall): string {
+    const params = JSON.stringify(toolCall.params).slice(0, 80);
+    const outcome = toolCall.result.success ? 'succeeded' : `failed (${toolCall.result.error ?? 'unknown error'})`;
+    return `- Tool ${toolCall.toolHandle} ${params} ${outcome}`;
+  }
+
+  private assemble(systemPrompt: string, summary: ConversationSummary | undefined, history: Message[], customerMessage: string): LLMMessage[] {
+    const system = summary && summary.lines.length > 0
+      ? `${systemPrompt}${SUMMARY_HEADER}\n${summary.lines.join('\n')}`
+      : systemPrompt;
+
+    return [
+      { role: 'system', content: system },
+      ...history.map(m => ({
+        role: (m.role === 'customer' ? 'user' : 'assistant') as LLMMessage['role'],
+        content: m.content
+      })),
+      { role: 'user', content: customerMessage }
+    ];
+  }
+
+  private countTokens(messages: LLMMessage[]): number {
+    return messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  }
+}
+
+/**
+ * Keep the start and end of a text within maxChars
+ */
+function clipMiddle(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const keep = Math.max(0, maxChars - CLIP_MARKER.length);
+  const head = Math.ceil(keep / 2);
+  return `${text.slice(0, head)}${CLIP_MARKER}${text.slice(text.length - (keep - head))}`;
+}
+
+/**
+ * Where the protected sections begin (the prompt length when there are none)
+ */
+function protectedSectionsStart(system: string): number {
+  const starts = PROTECTED_SECTIONS.map(header => system.indexOf(header)).filter(index => index >= 0);
+  return starts.length > 0 ? Math.min(...starts) : system.length;
+}
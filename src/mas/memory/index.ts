@@ -5,10 +5,16 @@
  * doesn't contradict itself, behaves like real email thread
  */
 
+import { SessionStorage, InMemorySessionStorage } from './storage';
+import type { ConversationSummary } from './context-window';
+import { SentimentScore, SessionSentiment, updateSessionSentiment } from './sentiment';
+import type { HandoffNote } from '../agents/handoff';
+
 export interface Message {
   role: 'customer' | 'agent' | 'system';
   content: string;
   timestamp: string;
+  author?: string; // AI agent id, or `human:<name>` for human replies
   metadata?: Record<string, unknown>;
 }
 
@@ -20,6 +26,7 @@ export interface ToolCall {
     data?: unknown;
     error?: string;
   };
+  agentId?: string; // Agent that made the call
   timestamp: string;
 }
 
@@ -32,12 +39,52 @@ export interface Session {
   shopifyCustomerId: string;
   startedAt: string;
   lastActivity: string;
-  status: 'active' | 'escalated' | 'resolved';
+  status: SessionStatus;
+  resolution?: SessionResolution;
+  threadKeys: string[];
   messages: Message[];
   toolCalls: ToolCall[];
   context: SessionContext;
 }
 
+export type SessionStatus = 'active' | 'escalated' | 'resolved' | 'expired' | 'archived';
+
+export type ResolutionOutcome =
+  | 'answered'
+  | 'action_completed'
+  | 'escalation_resolved'
+  | 'customer_abandoned'
+  | 'duplicate'
+  | 'other';
+
+export const RESOLUTION_OUTCOMES: ResolutionOutcome[] = [
+  'answered', 'action_completed', 'escalation_resolved', 'customer_abandoned', 'duplicate', 'other'
+];
+
+export interface SessionResolution {
+  outcome: ResolutionOutcome;
+  note?: string;
+  resolvedAt: string;
+}
+
+export interface StatusTransition {
+  from: SessionStatus;
+  to: SessionStatus;
+  reason: string;
+}
+
+/**
+ * Allowed lifecycle transitions. Archived is terminal; escalated sessions
+ * wait on a human and never expire.
+ */
+const TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  active: ['escalated', 'resolved', 'expired'],
+  escalated: ['active', 'resolved'],
+  resolved: ['active', 'archived'],
+  expired: ['active', 'archived'],
+  archived: []
+};
+
 export interface SessionContext {
   // Cached data from tool calls
   orderHistory?: unknown[];
@@ -52,18 +99,52 @@ export interface SessionContext {
   currentAgent: string;
   previousAgents: string[];
   intentHistory: string[];
+  handoffNotes?: HandoffNote[]; // Written when routing switches agents
+
+  // Customer mood across the conversation
+  sentiment?: SessionSentiment;
+
+  // Older turns folded out of the LLM context window
+  conversationSummary?: ConversationSummary;
 
   // Escalation info
   escalated: boolean;
   escalationReason?: string;
   escalationSummary?: Record<string, unknown>;
+  escalatedAt?: string; // Also the queue item's creation time, which keys its ID
+
+  // Human takeover
+  humanAgent?: string;
+  claimedAt?: string;
+  handbackNotes?: HandbackNote[];
+}
+
+export interface HandbackNote {
+  humanAgent: string;
+  note: string;
+  timestamp: string;
 }
 
 /**
- * In-memory session store
+ * Session store — in-memory map with write-through to a SessionStorage
  */
 export class MemoryStore {
   private sessions: Map<string, Session> = new Map();
+  private storage: SessionStorage = new InMemorySessionStorage();
+
+  /**
+   * Attach a storage backend and load its sessions
+   */
+  useStorage(storage: SessionStorage): void {
+    this.storage = storage;
+    this.sessions.clear();
+    for (const session of storage.loadAll()) {
+      this.sessions.set(session.id, session);
+    }
+    if (this.sessions.size > 0) {
+      console.log(`[Memory] Restored ${this.sessions.size} sessions from storage`);
+    }
+  }
 
   /**
    * Start new session (Requirement 1: Email Session Start)
@@ -73,6 +154,7 @@ export class MemoryStore {
     firstName: string;
     lastName: string;
     shopifyCustomerId: string;
+    threadId?: string;
   }): Session {
     const sessionId = this.generateSessionId();
     const now = new Date().toISOString();
@@ -87,6 +169,7 @@ export class MemoryStore {
       startedAt: now,
       lastActivity: now,
       status: 'active',
+      threadKeys: params.threadId ? [normalizeThreadKey(params.threadId)] : [],
       messages: [],
       toolCalls: [],
       context: {
@@ -100,6 +183,7 @@ export class MemoryStore {
     };
 
     this.sessions.set(sessionId, session);
+    this.storage.save(session);
     return session;
   }
 
@@ -110,10 +194,53 @@ export class MemoryStore {
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Find the session an email thread belongs to.
+   * Keys are Message-ID / In-Reply-To / References values or ticket conversationIds.
+   * With customerEmail, only that customer's sessions match (thread keys can be forged).
+   */
+  findSessionByThread(keys: string[], customerEmail?: string): Session | undefined {
+    const normalized = keys.map(normalizeThreadKey).filter(k => k.length > 0);
+    if (normalized.length === 0) return undefined;
+    const email = customerEmail?.toLowerCase();
+
+    // Most recently active session wins if a thread was split
+    return Array.from(this.sessions.values())
+      .filter(s => s.status !== 'archived' && (s.threadKeys ?? []).some(k => normalized.includes(k)))
+      .filter(s => email === undefined || s.customerEmail.toLowerCase() === email)
+      .sort((a, b) => b.lastActivity.localeCompare(a.lastActivity))[0];
+  }
+
+  /**
+   * Attach thread keys to a session so later replies resolve to it
+   */
+  addThreadKeys(sessionId: string, keys: string[]): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error(`Session not found: ${sessionId}`);
+
+    session.threadKeys = session.threadKeys ?? [];
+    for (const key of keys.map(normalizeThreadKey)) {
+      if (key && !session.threadKeys.includes(key)) {
+        session.threadKeys.push(key);
+      }
+    }
+    this.storage.save(session);
+  }
+
+  /**
+   * Get all sessions for a customer, newest first
+   */
+  getSessionsByCustomer(customerEmail: string): Session[] {
+    const email = customerEmail.toLowerCase();
+    return Array.from(this.sessions.values())
+      .filter(s => s.customerEmail.toLowerCase() === email)
+      .sort((a, b) => b.lastActivity.localeCompare(a.lastActivity));
+  }
+
   /**
    * Add message to session (Requirement 2: Continuous Memory)
    */
-  addMessage(sessionId: string, role: 'customer' | 'agent' | 'system', content: string, metadata?: Record<string, unknown>): void {
+  addMessage(sessionId: string, role: 'customer' | 'agent' | 'system', content: string, metadata?: Record<string, unknown>, author?: string): void {
     const session = this.sessions.get(sessionId);
     if (!session) throw new Error(`Session not found: ${sessionId}`);
 
@@ -121,6 +248,7 @@ export class MemoryStore {
       role,
       content,
       timestamp: new Date().toISOString(),
+      ...(author ? { author } : {}),
       metadata
     });
     session.lastActivity = new Date().toISOString();
@@ -129,12 +257,20 @@ export class MemoryStore {
     if (role === 'customer') {
       this.extractEntities(session, content);
     }
+
+    this.storage.save(session);
   }
 
   /**
    * Record tool call (Requirement 3: Observable Actions)
    */
-  recordToolCall(sessionId: string, toolHandle: string, params: Record<string, unknown>, result: { success: boolean; data?: unknown; error?: string }): void {
+  recordToolCall(
+    sessionId: string,
+    toolHandle: string,
+    params: Record<string, unknown>,
+    result: { success: boolean; data?: unknown; error?: string },
+    agentId?: string
+  ): void {
     const session = this.sessions.get(sessionId);
     if (!session) throw new Error(`Session not found: ${sessionId}`);
 
@@ -142,18 +278,20 @@ export class MemoryStore {
       toolHandle,
       params,
       result,
+      agentId,
       timestamp: new Date().toISOString()
     });
     session.lastActivity = new Date().toISOString();
 
     // Cache useful data
     this.cacheToolResult(session, toolHandle, result);
+    this.storage.save(session);
   }
 
   /**
    * Mark session as escalated (Requirement 4: Escalation)
    */
-  escalate(sessionId: string, reason: string, summary: Record<string, unknown>): void {
+  escalate(sessionId: string, reason: string, summary: Record<string, unknown>, escalatedAt: string = new Date().toISOString()): void {
     const session = this.sessions.get(sessionId);
     if (!session) throw new Error(`Session not found: ${sessionId}`);
 
@@ -161,7 +299,115 @@ export class MemoryStore {
     session.context.escalated = true;
     session.context.escalationReason = reason;
     session.context.escalationSummary = summary;
+    session.context.escalatedAt = escalatedAt;
     session.lastActivity = new Date().toISOString();
+    this.storage.save(session);
+  }
+
+  /**
+   * Human agent takes over an escalated session
+   */
+  claim(sessionId: string, humanAgent: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error(`Session not found: ${sessionId}`);
+    if (session.status !== 'escalated') {
+      throw new Error(`Only escalated sessions can be claimed (status: ${session.status})`);
+    }
+    if (session.context.humanAgent && session.context.humanAgent !== humanAgent) {
+      throw new Error(`Session already claimed by ${session.context.humanAgent}`);
+    }
+
+    session.context.humanAgent = humanAgent;
+    session.context.claimedAt = new Date().toISOString();
+    session.lastActivity = session.context.claimedAt;
+    this.storage.save(session);
+  }
+
+  /**
+   * Hand a claimed session back to automation with a note for the next agent
+   */
+  release(sessionId: string, humanAgent: string, note: string): StatusTransition {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error(`Session not found: ${sessionId}`);
+    if (session.context.humanAgent !== humanAgent) {
+      throw new Error(`Session is not claimed by ${humanAgent}`);
+    }
+
+    const transition = this.transition(sessionId, 'active', `released by ${humanAgent}`);
+    session.context.escalated = false;
+    session.context.humanAgent = undefined;
+    session.context.claimedAt = undefined;
+    session.context.handbackNotes = [
+      ...(session.context.handbackNotes ?? []),
+      { humanAgent, note, timestamp: new Date().toISOString() }
+    ];
+    this.storage.save(session);
+    return transition;
+  }
+
+  /**
+   * Resolve session with an outcome code
+   */
+  resolve(sessionId: string, outcome: ResolutionOutcome, note?: string): StatusTransition {
+    const transition = this.transition(sessionId, 'resolved', `resolved: ${outcome}`);
+    const session = this.sessions.get(sessionId)!;
+    session.resolution = { outcome, note, resolvedAt: new Date().toISOString() };
+    this.storage.save(session);
+    return transition;
+  }
+
+  /**
+   * Reopen a resolved or expired session; automation takes over again
+   */
+  reopen(sessionId: string, reason: string): StatusTransition {
+    const transition = this.transition(sessionId, 'active', reason);
+    const session = this.sessions.get(sessionId)!;
+    session.context.escalated = false;
+    session.context.humanAgent = undefined;
+    session.resolution = undefined;
+    this.storage.save(session);
+    return transition;
+  }
+
+  /**
+   * Archive a closed session (terminal; new replies start a new session)
+   */
+  archive(sessionId: string): StatusTransition {
+    return this.transition(sessionId, 'archived', 'archived');
+  }
+
+  /**
+   * Expire active sessions with no activity since the cutoff. Escalated
+   * sessions stay open until a human resolves or hands them back.
+   */
+  expireInactive(maxIdleMs: number, now: number = Date.now()): Array<StatusTransition & { sessionId: string }> {
+    const expired: Array<StatusTransition & { sessionId: string }> = [];
+    for (const session of this.sessions.values()) {
+      if (session.status !== 'active') continue;
+      const idleMs = now - new Date(session.lastActivity).getTime();
+      if (idleMs > maxIdleMs) {
+        const reason = `inactive for ${Math.round(idleMs / 60000)} minutes`;
+        expired.push({ sessionId: session.id, ...this.transition(session.id, 'expired', reason) });
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * Move session to a new status, enforcing the lifecycle
+   */
+  private transition(sessionId: string, to: SessionStatus, reason: string): StatusTransition {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error(`Session not found: ${sessionId}`);
+
+    const from = session.status;
+    if (!TRANSITIONS[from].includes(to)) {
+      throw new Error(`Invalid session transition: ${from} → ${to}`);
+    }
+
+    session.status = to;
+    this.storage.save(session);
+    return { from, to, reason };
   }
 
   /**
@@ -183,6 +429,18 @@ export class MemoryStore {
       session.context.previousAgents.push(session.context.currentAgent);
     }
     session.context.currentAgent = agentId;
+    this.storage.save(session);
+  }
+
+  /**
+   * Store the outgoing agent's note for the incoming one
+   */
+  recordHandoff(sessionId: string, note: HandoffNote): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.context.handoffNotes = [...(session.context.handoffNotes ?? []), note];
+    this.storage.save(session);
   }
 
   /**
@@ -193,6 +451,30 @@ export class MemoryStore {
     if (!session) return;
 
     session.context.intentHistory.push(intentId);
+    this.storage.save(session);
+  }
+
+  /**
+   * Fold a scored customer message into the session's sentiment
+   */
+  recordSentiment(sessionId: string, reading: SentimentScore): SessionSentiment | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    session.context.sentiment = updateSessionSentiment(session.context.sentiment, reading);
+    this.storage.save(session);
+    return session.context.sentiment;
+  }
+
+  /**
+   * Store the running summary of turns folded out of the context window
+   */
+  updateConversationSummary(sessionId: string, summary: ConversationSummary): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.context.conversationSummary = summary;
+    this.storage.save(session);
   }
 
   /**
@@ -280,13 +562,28 @@ export class MemoryStore {
     return Array.from(this.sessions.values()).filter(s => s.status === 'active');
   }
 
+  /**
+   * Get sessions in a given lifecycle status
+   */
+  getSessionsByStatus(status: SessionStatus): Session[] {
+    return Array.from(this.sessions.values()).filter(s => s.status === status);
+  }
+
   /**
    * Clear all sessions (for testing)
    */
   clear(): void {
     this.sessions.clear();
+    this.storage.clear();
   }
 }
 
+/**
+ * Normalize a thread key: `<abc@example.com>` and `ABC@example.com` are the same thread
+ */
+export function normalizeThreadKey(key: string): string {
+  return key.trim().replace(/^<|>$/g, '').toLowerCase();
+}
+
 // Singleton instance
 export const memoryStore = new MemoryStore();
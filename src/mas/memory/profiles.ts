@@ -0,0 +1,204 @@
+/**
+ * Customer Profiles — Cross-session memory (customer 360)
+ *
+ * Each session contributes a digest to the customer's profile, keyed by
+ * Shopify customer ID with email as an alias. Digests are recomputed from
+ * the session, so syncing the same session twice never double-counts.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { Session } from './index';
+
+export interface SessionDigest {
+  sessionId: string;
+  startedAt: string;
+  lastActivity: string;
+  intents: string[];
+  orders: string[];
+  escalated: boolean;
+  escalationReason?: string;
+  retentionOffers: RetentionOffer[];
+  sentiment?: number;
+}
+
+export interface RetentionOffer {
+  type: 'pause' | 'skip' | 'discount' | 'store_credit';
+  tool: string;
+  offeredAt: string;
+}
+
+export interface CustomerProfile {
+  id: string;
+  emails: string[];
+  shopifyCustomerId?: string;
+  firstName: string;
+  lastName: string;
+  sessions: SessionDigest[];
+  updatedAt: string;
+}
+
+// Tools whose successful call means a retention offer was made
+const RETENTION_TOOLS: Record<string, RetentionOffer['type']> = {
+  skio_pause_subscription: 'pause',
+  skio_skip_next_order_subscription: 'skip',
+  shopify_create_discount_code: 'discount',
+  shopify_create_store_credit: 'store_credit'
+};
+
+const MAX_SESSIONS_PER_PROFILE = 20;
+
+/**
+ * Profile store — in memory, optionally backed by a JSON file
+ */
+export class CustomerProfileStore {
+  private profiles: Map<string, CustomerProfile> = new Map();
+  private aliases: Map<string, string> = new Map(); // email / Shopify ID → profile ID
+  private filePath?: string;
+
+  /**
+   * Persist profiles to a JSON file and load existing ones
+   */
+  useFile(filePath: string): void {
+    this.filePath = filePath;
+    this.profiles.clear();
+    this.aliases.clear();
+
+    if (existsSync(filePath)) {
+      const stored = JSON.parse(readFileSync(filePath, 'utf-8')) as CustomerProfile[];
+      for (const profile of stored) {
+        this.index(profile);
+      }
+      console.log(`[Profiles] Loaded ${stored.length} customer profiles`);
+    } else {
+      mkdirSync(dirname(filePath), { recursive: true });
+    }
+  }
+
+  /**
+   * Find a profile by Shopify customer ID or email
+   */
+  getProfile(params: { email?: string; shopifyCustomerId?: string }): CustomerProfile | undefined {
+    const id = (params.shopifyCustomerId && this.aliases.get(params.shopifyCustomerId)) ||
+      (params.email && this.aliases.get(params.email.toLowerCase()));
+    return id ? this.profiles.get(id) : undefined;
+  }
+
+  /**
+   * Fold a session's current state into its customer's profile
+   */
+  syncSession(session: Session, sentiment?: number): CustomerProfile {
+    let profile = this.getProfile({ email: session.customerEmail, shopifyCustomerId: session.shopifyCustomerId });
+
+    if (!profile) {
+      profile = {
+        id: session.shopifyCustomerId || session.customerEmail.toLowerCase(),
+        emails: [],
+        firstName: session.customerFirstName,
+        lastName: session.customerLastName,
+        sessions: [],
+        updatedAt: new Date().toISOString()
+      };
+    }
+
+    const email = session.customerEmail.toLowerCase();
+    if (email && !profile.emails.includes(email)) profile.emails.push(email);
+    if (session.shopifyCustomerId) profile.shopifyCustomerId = session.shopifyCustomerId;
+    profile.firstName = session.customerFirstName || profile.firstName;
+    profile.lastName = session.customerLastName || profile.lastName;
+
+    const digest = this.digest(session, sentiment ?? profile.sessions.find(s => s.sessionId === session.id)?.sentiment);
+    profile.sessions = [
+      ...profile.sessions.filter(s => s.sessionId !== session.id),
+      digest
+    ].slice(-MAX_SESSIONS_PER_PROFILE);
+    profile.updatedAt = new Date().toISOString();
+
+    this.index(profile);
+    this.save();
+    return profile;
+  }
+
+  /**
+   * Compact history block for agent prompts, excluding the current session
+   */
+  formatHistory(session: Session): string {
+    const profile = this.getProfile({ email: session.customerEmail, shopifyCustomerId: session.shopifyCustomerId });
+    const past = profile?.sessions.filter(s => s.sessionId !== session.id) ?? [];
+    if (past.length === 0) return '';
+
+    const intents = unique(past.flatMap(s => s.intents));
+    const orders = unique(past.flatMap(s => s.orders));
+    const escalations = past.filter(s => s.escalated);
+    const offers = past.flatMap(s => s.retentionOffers);
+    const sentiments = past.map(s => s.sentiment).filter((s): s is number => s !== undefined);
+    const lastContact = past[past.length - 1].lastActivity.split('T')[0];
+
+    const lines = [`- ${past.length} previous conversation${past.length > 1 ? 's' : ''}, last on ${lastContact}`];
+    if (intents.length > 0) lines.push(`- Past topics: ${intents.join(', ')}`);
+    if (orders.length > 0) lines.push(`- Orders discussed: ${orders.join(', ')}`);
+    if (escalations.length > 0) {
+      lines.push(`- Escalated before: ${escalations.length} time(s) (${unique(escalations.map(e => e.escalationReason || 'unknown')).join('; ')})`);
+    }
+    if (offers.length > 0) {
+      lines.push(`- Retention offers already made: ${offers.map(o => `${o.type.replace('_', ' ')} (${o.offeredAt.split('T')[0]})`).join(', ')}`);
+    }
+    if (sentiments.length > 0) {
+      const average = sentiments.reduce((sum, s) => sum + s, 0) / sentiments.length;
+      lines.push(`- Past sentiment: ${average <= -0.3 ? 'negative' : average >= 0.3 ? 'positive' : 'neutral'} (${average.toFixed(2)})`);
+    }
+
+    return `\n\nCUSTOMER HISTORY (previous conversations):\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Clear all profiles (for testing)
+   */
+  clear(): void {
+    this.profiles.clear();
+    this.aliases.clear();
+    this.save();
+  }
+
+  private digest(session: Session, sentiment?: number): SessionDigest {
+    return {
+      sessionId: session.id,
+      startedAt: session.startedAt,
+      lastActivity: session.lastActivity,
+      intents: unique(session.context.intentHistory),
+      orders: [...session.context.mentionedOrderNumbers],
+      escalated: session.context.escalated,
+      escalationReason: session.context.escalationReason,
+      retentionOffers: session.toolCalls
+        .filter(t => t.result.success && RETENTION_TOOLS[t.toolHandle])
+        .map(t => ({
+          type: RETENTION_TOOLS[t.toolHandle],
+          tool: t.toolHandle,
+          offeredAt: t.timestamp
+        })),
+      sentiment
+    };
+  }
+
+  private index(profile: CustomerProfile): void {
+    this.profiles.set(profile.id, profile);
+    for (const email of profile.emails) {
+      this.aliases.set(email, profile.id);
+    }
+    if (profile.shopifyCustomerId) {
+      this.aliases.set(profile.shopifyCustomerId, profile.id);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    writeFileSync(this.filePath, JSON.stringify(Array.from(this.profiles.values()), null, 2));
+  }
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+// Singleton instance
+export const customerProfiles = new CustomerProfileStore();
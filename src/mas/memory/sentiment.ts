@@ -0,0 +1,204 @@
+/**
+ * Sentiment — Lexicon-based mood tracking for customer messages
+ *
+ * Each customer message gets a sentiment score in [-1, 1] and a frustration
+ * score in [0, 1] from word lists, negation, intensifiers, shouting and
+ * "still waiting"-style phrases. No network calls. The session keeps a short
+ * history so escalation can react to a customer who keeps getting angrier.
+ */
+
+export interface SentimentScore {
+  score: number; // -1 (very negative) to 1 (very positive)
+  frustration: number; // 0 (calm) to 1 (furious)
+  signals: string[]; // What moved the scores, for traces and summaries
+}
+
+export interface SentimentReading {
+  score: number;
+  frustration: number;
+  at: string;
+}
+
+export interface SessionSentiment {
+  current: number;
+  average: number; // Over the recent window
+  frustration: number; // Accumulates across messages, decays when calm
+  trend: 'improving' | 'worsening' | 'steady';
+  signals: string[]; // From the latest message
+  history: SentimentReading[];
+}
+
+export interface SentimentThresholds {
+  minAverage: number; // Escalate when the recent average drops to this
+  maxFrustration: number; // Escalate when session frustration reaches this
+  minMessages: number; // Customer messages needed before the average counts
+}
+
+export const DEFAULT_SENTIMENT_THRESHOLDS: SentimentThresholds = {
+  minAverage: -0.5,
+  maxFrustration: 0.8,
+  minMessages: 2
+};
+
+// Readings kept on the session; the average uses the last AVERAGE_WINDOW
+const HISTORY_LIMIT = 10;
+const AVERAGE_WINDOW = 3;
+const FRUSTRATION_DECAY = 0.6;
+
+const LEXICON: Record<string, number> = {
+  // Positive
+  thanks: 1.5, thank: 1.5, great: 2, good: 1.5, love: 2.5, loved: 2.5, happy: 2, glad: 1.5,
+  perfect: 2.5, awesome: 2.5, amazing: 2.5, excellent: 2.5, appreciate: 2, helpful: 2, wonderful: 2.5,
+  nice: 1.5, pleased: 2, fantastic: 2.5, brilliant: 2.5, works: 1, resolved: 1.5, fine: 0.5,
+  // Negative
+  bad: -1.5, poor: -1.5, terrible: -2.5, horrible: -2.5, awful: -2.5, worst: -3, hate: -2.5,
+  angry: -2.5, upset: -2, annoyed: -2, frustrated: -2.5, frustrating: -2.5, disappointed: -2,
+  disappointing: -2, unhappy: -2, ridiculous: -2.5, unacceptable: -3, useless: -2.5, worthless: -2.5,
+  scam: -3, fraud: -3, rude: -2, broken: -1.5, damaged: -1.5, wrong: -1.5, missing: -1, late: -1,
+  problem: -1, issue: -0.5, refund: -0.5, never: -0.5, waste: -2, joke: -1.5, pathetic: -3,
+  disgusting: -3, furious: -3, livid: -3, fed: -0.5, sick: -1, tired: -1, ignored: -2, lied: -2.5,
+  stolen: -2, cheated: -2.5, incompetent: -3, nightmare: -2.5, disaster: -2.5
+};
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'arent', 'cant', 'cannot',
+  'wont', 'havent', 'hasnt', 'hadnt', 'shouldnt', 'wouldnt', 'couldnt', 'nothing', 'without'
+]);
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.5, so: 1.4, extremely: 1.8, totally: 1.5, completely: 1.5, absolutely: 1.8,
+  incredibly: 1.8, super: 1.4, beyond: 1.5
+};
+
+// Phrases that signal frustration even when the words themselves are neutral
+const FRUSTRATION_PHRASES: Array<{ pattern: RegExp; weight: number; signal: string }> = [
+  { pattern: /\b(still|yet) (haven'?t|hasn'?t|have not|has not|not|no|waiting)\b/i, weight: 0.3, signal: 'still waiting' },
+  { pattern: /\b(second|third|fourth|fifth|\d+(st|nd|rd|th)) (time|email|message)\b/i, weight: 0.35, signal: 'repeat contact' },
+  { pattern: /\bhow many times\b/i, weight: 0.4, signal: 'repeat contact' },
+  { pattern: /\b(again|already) (emailed|asked|told|contacted|wrote)\b|\b(emailed|asked|told|contacted|wrote) (you )?(before|already|again)\b/i, weight: 0.3, signal: 'repeat contact' },
+  { pattern: /\b(no (one|response|reply|answer)|nobody)\b/i, weight: 0.3, signal: 'ignored' },
+  { pattern: /\b(fed up|sick of|tired of|had enough|last straw)\b/i, weight: 0.4, signal: 'fed up' },
+  { pattern: /\b(waste of|wasting) (my )?(time|money)\b/i, weight: 0.35, signal: 'wasted time' },
+  { pattern: /\b(never (again|buying|ordering|order)|cancel everything|dispute|chargeback|bad review|report you)\b/i, weight: 0.4, signal: 'threat to leave' },
+  { pattern: /\b(ridiculous|unacceptable|useless|worthless|pathetic|scam|wtf)\b/i, weight: 0.25, signal: 'harsh words' }
+];
+
+/**
+ * Score one customer message
+ */
+export function scoreSentiment(text: string): SentimentScore {
+  const signals: string[] = [];
+  const tokens = text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  let sum = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    let weight = LEXICON[tokens[i]];
+    if (weight === undefined) continue;
+
+    const previous = tokens.slice(Math.max(0, i - 3), i);
+    const intensifier = INTENSIFIERS[tokens[i - 1]];
+    if (intensifier) weight *= intensifier;
+    if (previous.some(t => NEGATIONS.has(t))) {
+      weight *= -0.5;
+      signals.push(`negated "${tokens[i]}"`);
+    }
+    sum += weight;
+  }
+
+  // Shouting and punctuation amplify whatever the words say
+  let frustration = 0;
+  const words = text.match(/[A-Za-z]{3,}/g) || [];
+  const capitals = words.filter(w => w === w.toUpperCase());
+  if (capitals.length >= 2 && capitals.length / words.length >= 0.5) {
+    frustration += 0.2;
+    signals.push('all caps');
+    if (sum < 0) sum *= 1.3;
+  }
+  if (/!{2,}|\?!|!\?/.test(text)) {
+    frustration += 0.15;
+    signals.push('repeated punctuation');
+    if (sum < 0) sum *= 1.2;
+  }
+
+  for (const phrase of FRUSTRATION_PHRASES) {
+    if (phrase.pattern.test(text)) {
+      frustration += phrase.weight;
+      if (!signals.includes(phrase.signal)) signals.push(phrase.signal);
+    }
+  }
+
+  // Normalize the raw sum into [-1, 1] (same curve as VADER)
+  const score = sum / Math.sqrt(sum * sum + 15);
+  if (score < 0) frustration += -score * 0.4;
+
+  return {
+    score: round(score),
+    frustration: round(Math.min(1, frustration)),
+    signals
+  };
+}
+
+/**
+ * Fold a new reading into the session's running sentiment
+ */
+export function updateSessionSentiment(
+  previous: SessionSentiment | undefined,
+  reading: SentimentScore,
+  at: string = new Date().toISOString()
+): SessionSentiment {
+  const history = [...(previous?.history ?? []), { score: reading.score, frustration: reading.frustration, at }]
+    .slice(-HISTORY_LIMIT);
+  const recent = history.slice(-AVERAGE_WINDOW);
+  const average = recent.reduce((sum, r) => sum + r.score, 0) / recent.length;
+
+  // Repeated frustration adds up; a calm message lets it fade
+  const frustration = Math.min(1, (previous?.frustration ?? 0) * FRUSTRATION_DECAY + reading.frustration);
+
+  const delta = history.length > 1 ? reading.score - history[history.length - 2].score : 0;
+  const trend = delta > 0.2 ? 'improving' : delta < -0.2 ? 'worsening' : 'steady';
+
+  return {
+    current: reading.score,
+    average: round(average),
+    frustration: round(frustration),
+    trend,
+    signals: reading.signals,
+    history
+  };
+}
+
+/**
+ * Reason to escalate, or undefined while the customer is within thresholds
+ */
+export function sentimentEscalationReason(
+  sentiment: SessionSentiment | undefined,
+  thresholds: Partial<SentimentThresholds> = {}
+): string | undefined {
+  if (!sentiment) return undefined;
+  const minAverage = thresholds.minAverage ?? DEFAULT_SENTIMENT_THRESHOLDS.minAverage;
+  const maxFrustration = thresholds.maxFrustration ?? DEFAULT_SENTIMENT_THRESHOLDS.maxFrustration;
+  const minMessages = thresholds.minMessages ?? DEFAULT_SENTIMENT_THRESHOLDS.minMessages;
+
+  if (sentiment.frustration >= maxFrustration) {
+    return `customer frustrated (frustration ${sentiment.frustration.toFixed(2)})`;
+  }
+  if (sentiment.history.length >= minMessages && sentiment.average <= minAverage) {
+    return `customer frustrated (negative sentiment ${sentiment.average.toFixed(2)})`;
+  }
+  return undefined;
+}
+
+/**
+ * Label for summaries: negative / neutral / positive
+ */
+export function sentimentLabel(score: number): 'negative' | 'neutral' | 'positive' {
+  return score <= -0.3 ? 'negative' : score >= 0.3 ? 'positive' : 'neutral';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,164 @@
+/**
+ * Session Storage — Pluggable persistence backends for MemoryStore
+ *
+ * MemoryStore keeps sessions in a Map for fast access and writes every
+ * change through to a SessionStorage. The default backend keeps nothing;
+ * the file backend survives a server restart.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { Session, SessionContext } from './index';
+
+export interface SessionStorage {
+  /** Load every stored session (called once when the backend is attached) */
+  loadAll(): Session[];
+  /** Insert or replace a session snapshot */
+  save(session: Session): void;
+  /** Remove a session */
+  delete(sessionId: string): void;
+  /** Remove all sessions */
+  clear(): void;
+}
+
+/**
+ * Context fields that only cache tool results. They are re-fetched on demand,
+ * so they are persisted only when listed in MemoryConfig.persistentFields.
+ */
+const CACHED_CONTEXT_FIELDS: (keyof SessionContext)[] = ['orderHistory', 'subscriptionStatus', 'currentOrder'];
+
+/**
+ * No-op storage — sessions live only in the MemoryStore map
+ */
+export class InMemorySessionStorage implements SessionStorage {
+  loadAll(): Session[] {
+    return [];
+  }
+
+  save(): void {}
+
+  delete(): void {}
+
+  clear(): void {}
+}
+
+/**
+ * Superseded records tolerated before the log is rewritten. Compaction also
+ * waits until dead records outnumber live sessions, so the file stays within
+ * about twice its compacted size.
+ */
+export const DEFAULT_COMPACT_THRESHOLD = 500;
+
+/**
+ * Append-only JSONL storage
+ *
+ * Each write appends a `put` or `delete` record. On load the log is replayed
+ * (last record per session wins) and compacted to one line per session; while
+ * running, it is compacted again once superseded records pile up.
+ */
+export class FileSessionStorage implements SessionStorage {
+  private filePath: string;
+  private persistentFields: string[];
+  private compactThreshold: number;
+  private live: Map<string, string> = new Map(); // Latest `put` line per session
+  private deadRecords = 0;
+  private loaded = false;
+
+  constructor(filePath: string, persistentFields: string[] = [], compactThreshold: number = DEFAULT_COMPACT_THRESHOLD) {
+    this.filePath = filePath;
+    this.persistentFields = persistentFields;
+    this.compactThreshold = compactThreshold;
+
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  loadAll(): Session[] {
+    this.loaded = true;
+    if (!existsSync(this.filePath)) return [];
+
+    const sessions = new Map<string, Session>();
+    const lines = readFileSync(this.filePath, 'utf-8').split('\n');
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as { op: 'put'; session: Session } | { op: 'delete'; id: string };
+        if (record.op === 'put') {
+          sessions.set(record.session.id, record.session);
+        } else if (record.op === 'delete') {
+          sessions.delete(record.id);
+        }
+      } catch {
+        // A torn write from a crash leaves a partial last line — skip it
+        console.warn(`[Storage] Skipping unreadable line in ${this.filePath}`);
+      }
+    }
+
+    this.live = new Map(Array.from(sessions.values()).map(s => [s.id, JSON.stringify({ op: 'put', session: s })]));
+    this.compact();
+    return Array.from(sessions.values());
+  }
+
+  save(session: Session): void {
+    const line = JSON.stringify({ op: 'put', session: this.toRecord(session) });
+    if (this.live.has(session.id)) this.deadRecords++;
+    this.live.set(session.id, line);
+    this.append(line);
+  }
+
+  delete(sessionId: string): void {
+    // The delete record and the put it cancels are both dead
+    this.deadRecords += this.live.delete(sessionId) ? 2 : 1;
+    this.append(JSON.stringify({ op: 'delete', id: sessionId }));
+  }
+
+  clear(): void {
+    this.live.clear();
+    this.deadRecords = 0;
+    writeFileSync(this.filePath, '');
+  }
+
+  private append(line: string): void {
+    appendFileSync(this.filePath, line + '\n');
+    // Before loadAll the log may hold sessions this instance has not seen
+    if (this.loaded && this.deadRecords >= Math.max(this.compactThreshold, this.live.size)) {
+      this.compact();
+    }
+  }
+
+  private compact(): void {
+    const content = Array.from(this.live.values()).join('\n');
+    writeFileSync(this.filePath, content ? content + '\n' : '');
+    this.deadRecords = 0;
+  }
+
+  /**
+   * Strip cached tool data that is not in persistentFields
+   */
+  private toRecord(session: Session): Session {
+    const context: SessionContext = { ...session.context };
+    for (const field of CACHED_CONTEXT_FIELDS) {
+      if (!this.persistentFields.includes(field)) {
+        delete context[field];
+      }
+    }
+    return { ...session, context };
+  }
+}
+
+/**
+ * Create storage backend from MemoryConfig
+ */
+export function createSessionStorage(
+  memoryConfig: { type: 'session' | 'persistent'; persistentFields: string[] },
+  filePath: string = process.env.SESSION_STORE_PATH || '.mas/sessions.jsonl'
+): SessionStorage {
+  if (memoryConfig.type === 'persistent') {
+    console.log(`[Storage] Persisting sessions to ${filePath}`);
+    return new FileSessionStorage(filePath, memoryConfig.persistentFields);
+  }
+  return new InMemorySessionStorage();
+}
@@ -4,16 +4,59 @@
  * Intent-based routing with fallback to general agent
  */
 
-import { classifyMessage, IntentClassification } from '../../meta/intent-extractor';
-import { MASConfig, AgentConfig, RoutingRule, EscalationConfig } from '../../meta/agent-generator';
+import { splitIntents, IntentClassification, DEFAULT_INTENT_CATALOG } from '../../meta/intent-extractor';
+import { createIntentClassifier, IntentClassifier } from '../../meta/intent-extractor/classifier';
+import {
+  IntentCatalog,
+  IntentConfig,
+  bumpPatchVersion,
+  cloneIntentCatalog,
+  removeCatalogIntent,
+  setCatalogIntent
+} from '../../meta/intent-extractor/catalog';
+import { MASConfig, AgentConfig, RoutingRule, EscalationConfig, generateRoutingRule } from '../../meta/agent-generator';
 import { Session, memoryStore } from '../memory';
+import { sentimentEscalationReason, sentimentLabel } from '../memory/sentiment';
 import { tracer } from '../tracing';
+import { escalationQueue } from '../escalation';
+import { CompiledCondition, compileConditions, evaluateConditions } from '../escalation/conditions';
+import { escalationEta, escalationMessage } from '../escalation/calendar';
 import { applyDynamicRules } from '../../api/mas-update';
 
 export interface RoutingResult {
   targetAgent: AgentConfig;
   intent: IntentClassification;
   confidence: number;
+  previousAgent?: string; // Set when routing switched away from this agent
+}
+
+export interface RuleCandidate {
+  intentId: string;
+  targetAgent: string;
+  keywordHits: string[];
+  keywordScore: number; // 0.2 per keyword hit
+  intentScore: number; // 0.5 when the rule matches the primary intent
+  secondaryScore: number; // 0.2 when it matches a secondary intent
+  score: number; // Capped at 1
+  minConfidence: number;
+  eligible: boolean;
+}
+
+export interface RoutingDecision {
+  text: string; // Message (or compound-request part) that was routed
+  intent: { primary: string; secondary: string[]; confidence: number; classifier: string };
+  candidates: RuleCandidate[]; // Every rule, best score first
+  ruleWinner?: string; // intentId of the winning rule, if any was eligible
+  ruleAgent: string; // Winner's agent, or the fallback agent
+  continuity?: { currentAgent: string; applied: boolean; reason: string };
+  finalAgent: string;
+  branch?: { index: number; total: number };
+}
+
+export interface IntentBranch {
+  agent: AgentConfig;
+  text: string; // The part of the message this branch handles
+  intents: string[];
 }
 
 export interface EscalationResult {
@@ -23,6 +66,36 @@ export interface EscalationResult {
   internalSummary?: Record<string, unknown>;
 }
 
+export interface BranchResult {
+  branch: IntentBranch;
+  reply?: string;
+  error?: string;
+}
+
+/**
+ * Task for one branch agent: handle its own part, leave the rest to colleagues
+ */
+export function branchInstruction(branch: IntentBranch, branches: IntentBranch[]): string {
+  const others = branches.filter(b => b !== branch).map(b => `- "${b.text}"`).join('\n');
+  return `This email contains several requests. Handle ONLY this part: "${branch.text}"
+Colleagues are handling the other parts:
+${others}
+Report what you found or did. Your report is merged into one reply, so do not greet or sign off.`;
+}
+
+/**
+ * Task for the agent that merges branch reports into the customer reply
+ */
+export function mergeInstruction(results: BranchResult[]): string {
+  const reports = results
+    .map(r => `[${r.branch.text}]\n${r.reply ?? `Could not be completed (${r.error}). Tell the customer we are looking into it.`}`)
+    .join('\n\n');
+  return `Specialists handled each request in this email separately. Combine their reports into ONE coherent reply that answers every request in order. Keep every fact and action; do not mention the specialists.
+
+SPECIALIST REPORTS:
+${reports}`;
+}
+
 /**
  * Orchestrator manages routing between agents
  */
@@ -32,6 +105,9 @@ export class Orchestrator {
   private routingRules: RoutingRule[];
   private escalationConfig: EscalationConfig;
   private fallbackAgent: AgentConfig;
+  private classifier: IntentClassifier;
+  private catalog: IntentCatalog;
+  private conditionCache = new Map<string, CompiledCondition[]>();
 
   constructor(config: MASConfig) {
     this.config = config;
@@ -39,6 +115,11 @@ export class Orchestrator {
     this.routingRules = config.orchestrator.routing;
     this.escalationConfig = config.orchestrator.escalationHandler;
 
+    // The config owns its catalog so API edits are versioned with it
+    config.intentCatalog = config.intentCatalog || cloneIntentCatalog(DEFAULT_INTENT_CATALOG);
+    this.catalog = config.intentCatalog;
+    this.classifier = createIntentClassifier(config.orchestrator.classifier, this.catalog);
+
     // Index agents
     for (const agent of config.orchestrator.agents) {
       this.agents.set(agent.id, agent);
@@ -49,34 +130,94 @@ export class Orchestrator {
       config.orchestrator.agents[0];
   }
 
+  /**
+   * Classify a message with the configured intent classifier
+   */
+  classify(message: string): IntentClassification {
+    return this.classifier.classify(message);
+  }
+
+  /**
+   * Intent catalog used for classification
+   */
+  getIntentCatalog(): IntentCatalog {
+    return this.catalog;
+  }
+
+  /**
+   * Add or replace a catalog intent and its routing rule. The keyword
+   * classifier sees it immediately; a trained model needs retraining.
+   * Catalog edits bump the MAS config's patch version as well.
+   */
+  setIntent(intentId: string, intent: IntentConfig): IntentCatalog {
+    setCatalogIntent(this.catalog, intentId, intent);
+    this.config.version = bumpPatchVersion(this.config.version);
+
+    const rule = generateRoutingRule({
+      id: intentId.toLowerCase().replace(/_/g, '-'),
+      name: intentId.replace(/_/g, ' ').toLowerCase(),
+      examples: [],
+      keywords: intent.keywords,
+      confidence: 0,
+      suggestedWorkflow: intent.suggestedWorkflow
+    }, this.config.orchestrator.agents);
+    const index = this.routingRules.findIndex(r => r.intentId === rule.intentId);
+    if (index >= 0) {
+      this.routingRules[index] = rule;
+    } else {
+      this.routingRules.push(rule);
+    }
+
+    console.log(`[Orchestrator] Intent ${intentId} → ${rule.targetAgent} (catalog ${this.catalog.version}, config ${this.config.version})`);
+    return this.catalog;
+  }
+
+  /**
+   * Remove a catalog intent and its routing rule
+   */
+  removeIntent(intentId: string): IntentCatalog {
+    removeCatalogIntent(this.catalog, intentId);
+    this.config.version = bumpPatchVersion(this.config.version);
+
+    const ruleId = intentId.toLowerCase().replace(/_/g, '-');
+    const index = this.routingRules.findIndex(r => r.intentId === ruleId);
+    if (index >= 0) this.routingRules.splice(index, 1);
+    return this.catalog;
+  }
+
   /**
    * Route message to appropriate agent
    */
   route(sessionId: string, message: string): RoutingResult {
     const session = memoryStore.getSession(sessionId);
-    const intent = classifyMessage(message);
+    const intent = this.classify(message);
 
     // Find matching routing rule
-    let targetAgent = this.fallbackAgent;
-    let highestScore = 0;
-
-    for (const rule of this.routingRules) {
-      const score = this.calculateRuleScore(message, intent, rule);
-      if (score > highestScore && score >= rule.conditions.minConfidence) {
-        highestScore = score;
-        const agent = this.agents.get(rule.targetAgent);
-        if (agent) targetAgent = agent;
-      }
-    }
+    const selected = this.selectAgent(message, intent);
+    const highestScore = selected.score;
+    let targetAgent = selected.targetAgent;
+    const decision = this.describeDecision(message, intent, selected);
 
     // Consider session context for continuity
     if (session?.context.currentAgent) {
       const currentAgent = this.agents.get(session.context.currentAgent);
       // Stay with current agent if intent is related
-      if (currentAgent && this.isRelatedToCurrentAgent(intent, currentAgent)) {
-        targetAgent = currentAgent;
+      if (currentAgent) {
+        const related = this.isRelatedToCurrentAgent(intent, currentAgent);
+        if (related) {
+          targetAgent = currentAgent;
+        }
+        decision.continuity = {
+          currentAgent: currentAgent.id,
+          applied: related && currentAgent.id !== selected.targetAgent.id,
+          reason: related
+            ? `${intent.primary} matches a trigger of ${currentAgent.id}`
+            : `${intent.primary} is unrelated to ${currentAgent.id}`
+        };
       }
     }
+    decision.finalAgent = targetAgent.id;
+    tracer.traceRoutingDecision(sessionId, decision);
 
     // Trace routing
     const previousAgent = session?.context.currentAgent || 'none';
@@ -93,10 +234,48 @@ export class Orchestrator {
     return {
       targetAgent,
       intent,
-      confidence: highestScore || intent.confidence
+      confidence: highestScore || intent.confidence,
+      previousAgent: previousAgent !== 'none' && previousAgent !== targetAgent.id ? previousAgent : undefined
     };
   }
 
+  /**
+   * Split a compound message into branches, one per specialist agent.
+   * Returns undefined when a single agent can handle the whole message.
+   */
+  planBranches(sessionId: string, message: string): IntentBranch[] | undefined {
+    const segments = splitIntents(message, this.catalog);
+    if (segments.length < 2) return undefined;
+
+    const branches: IntentBranch[] = [];
+    const decisions: RoutingDecision[] = [];
+    for (const [index, segment] of segments.entries()) {
+      const selected = this.selectAgent(segment.text, segment.intent);
+      const targetAgent = selected.targetAgent;
+      decisions.push({
+        ...this.describeDecision(segment.text, segment.intent, selected),
+        branch: { index: index + 1, total: segments.length }
+      });
+
+      const existing = branches.find(b => b.agent.id === targetAgent.id);
+      if (existing) {
+        existing.text += `; ${segment.text}`;
+        existing.intents.push(segment.intent.primary);
+      } else {
+        branches.push({ agent: targetAgent, text: segment.text, intents: [segment.intent.primary] });
+      }
+    }
+    if (branches.length < 2) return undefined;
+
+    for (const decision of decisions) {
+      tracer.traceRoutingDecision(sessionId, decision);
+    }
+    for (const intent of branches.flatMap(b => b.intents)) {
+      memoryStore.recordIntent(sessionId, intent);
+    }
+    return branches;
+  }
+
   /**
    * Check if escalation is needed
    */
@@ -109,7 +288,10 @@ export class Orchestrator {
       return {
         escalated: true,
         reason: session.context.escalationReason,
-        customerMessage: 'This issue has been escalated to our team. A specialist will respond shortly.'
+        // A claimed session is answered by its human agent, not by us
+        customerMessage: session.context.humanAgent
+          ? undefined
+          : `This issue has been escalated to our team. A specialist will respond ${session.context.escalationSummary?.expected_response ?? 'shortly'}.`
       };
     }
 
@@ -119,20 +301,7 @@ export class Orchestrator {
     const dynamicResult = applyDynamicRules(message);
     if (dynamicResult.escalate) {
       const reason = dynamicResult.reason || 'Dynamic rule triggered escalation';
-      const summary = this.buildEscalationSummary(session);
-      if (dynamicResult.tag) {
-        (summary as any).tag = dynamicResult.tag;
-      }
-
-      memoryStore.escalate(sessionId, reason, summary);
-      tracer.traceEscalation(sessionId, reason, summary);
-
-      return {
-        escalated: true,
-        reason,
-        customerMessage: this.escalationConfig.customerMessage,
-        internalSummary: summary
-      };
+      return this.escalate(sessionId, reason, dynamicResult.tag ? { tag: dynamicResult.tag } : {});
     }
 
     // Direct escalation keyword detection
@@ -141,34 +310,83 @@ export class Orchestrator {
     const hasEscalationKeyword = escalationKeywords.some(k => messageLower.includes(k));
     const hasEscalationTrigger = escalationTriggers.some(t => messageLower.includes(t));
 
-    const shouldEscalate = (hasEscalationKeyword || hasEscalationTrigger) ||
-      this.escalationConfig.conditions.some(condition => {
-        const condLower = condition.toLowerCase();
-        if (condLower.includes('cannot determine') && session.context.intentHistory.length > 3) {
-          const uniqueIntents = new Set(session.context.intentHistory);
-          if (uniqueIntents.size >= 3) return true;
-        }
-        return false;
-      });
+    // Customer mood over the session (scored by the runtime per message)
+    const frustration = this.escalationConfig.sentiment?.enabled === false
+      ? undefined
+      : sentimentEscalationReason(session.context.sentiment, this.escalationConfig.sentiment);
 
-    if (shouldEscalate) {
-      const reason = this.determineEscalationReason(message, session);
-      const summary = this.buildEscalationSummary(session);
+    // Workflow manual conditions (global and the current agent's), compiled to predicates
+    const conditions = [...this.compiledConditions(), ...this.compiledConditions(session.context.currentAgent)];
+    const met = evaluateConditions(conditions, { session, message });
 
-      memoryStore.escalate(sessionId, reason, summary);
-      tracer.traceEscalation(sessionId, reason, summary);
+    const shouldEscalate = hasEscalationKeyword || hasEscalationTrigger || frustration !== undefined || met !== undefined;
 
-      return {
-        escalated: true,
-        reason,
-        customerMessage: this.escalationConfig.customerMessage,
-        internalSummary: summary
-      };
+    if (shouldEscalate) {
+      const condition = met && `${met.condition.condition} (${met.evidence})`;
+      const reason = this.determineEscalationReason(message, session, frustration || condition);
+      return this.escalate(sessionId, reason);
     }
 
     return { escalated: false };
   }
 
+  /**
+   * Check the workflow conditions of the agent about to run, before it can
+   * act on the message (refund, cancel, ...)
+   */
+  checkAgentConditions(sessionId: string, message: string, agentId: string): EscalationResult {
+    const session = memoryStore.getSession(sessionId);
+    if (!session || session.context.escalated) return { escalated: false };
+
+    const met = evaluateConditions(this.compiledConditions(agentId), { session, message });
+    if (!met) return { escalated: false };
+
+    const reason = this.determineEscalationReason(message, session, `${met.condition.condition} (${met.evidence})`);
+    return this.escalate(sessionId, reason);
+  }
+
+  /**
+   * Escalate a session: build the summary (plus any extra fields), queue it
+   * for the team, mark the session and trace it
+   */
+  escalate(sessionId: string, reason: string, extra: Record<string, unknown> = {}): EscalationResult {
+    const session = memoryStore.getSession(sessionId);
+    if (!session) throw new Error(`Session not found: ${sessionId}`);
+
+    const summary = { ...this.buildEscalationSummary(session), ...extra };
+    const { customerMessage, escalatedAt } = this.enqueueEscalation(session, reason, summary);
+
+    memoryStore.escalate(sessionId, reason, summary, escalatedAt);
+    tracer.traceEscalation(sessionId, reason, summary);
+
+    return {
+      escalated: true,
+      reason,
+      customerMessage,
+      internalSummary: summary
+    };
+  }
+
+  /**
+   * Compiled escalation conditions: the handler's when agentId is omitted,
+   * otherwise the agent's own. Cached per agent.
+   */
+  compiledConditions(agentId?: string): CompiledCondition[] {
+    const key = agentId ?? '*';
+    let compiled = this.conditionCache.get(key);
+    if (!compiled) {
+      const source = agentId === undefined
+        ? this.escalationConfig.conditions
+        : this.agents.get(agentId)?.escalationConditions ?? [];
+      compiled = compileConditions(source, {
+        returnWindowDays: this.escalationConfig.returnWindowDays,
+        sentiment: this.escalationConfig.sentiment
+      }).compiled;
+      this.conditionCache.set(key, compiled);
+    }
+    return compiled;
+  }
+
   /**
    * Get agent by ID
    */
@@ -176,6 +394,13 @@ export class Orchestrator {
     return this.agents.get(agentId);
   }
 
+  /**
+   * Get the fallback (general) agent
+   */
+  getFallbackAgent(): AgentConfig {
+    return this.fallbackAgent;
+  }
+
   /**
    * Get all agents
    */
@@ -183,28 +408,84 @@ export class Orchestrator {
     return Array.from(this.agents.values());
   }
 
-  private calculateRuleScore(message: string, intent: IntentClassification, rule: RoutingRule): number {
-    let score = 0;
-    const messageLower = message.toLowerCase();
+  /**
+   * Best-scoring routing rule's agent, or the fallback agent
+   */
+  private selectAgent(message: string, intent: IntentClassification): {
+    targetAgent: AgentConfig;
+    score: number;
+    rule?: RoutingRule;
+    candidates: RuleCandidate[];
+  } {
+    let targetAgent = this.fallbackAgent;
+    let highestScore = 0;
+    let winner: RoutingRule | undefined;
+    const candidates: RuleCandidate[] = [];
 
-    // Keyword matches
-    for (const keyword of rule.conditions.keywords) {
-      if (messageLower.includes(keyword.toLowerCase())) {
-        score += 0.2;
+    for (const rule of this.routingRules) {
+      const candidate = this.calculateRuleScore(message, intent, rule);
+      candidates.push(candidate);
+      if (candidate.score > highestScore && candidate.eligible) {
+        highestScore = candidate.score;
+        const agent = this.agents.get(rule.targetAgent);
+        if (agent) {
+          targetAgent = agent;
+          winner = rule;
+        }
       }
     }
 
+    return { targetAgent, score: highestScore, rule: winner, candidates };
+  }
+
+  private calculateRuleScore(message: string, intent: IntentClassification, rule: RoutingRule): RuleCandidate {
+    const messageLower = message.toLowerCase();
+
+    // Keyword matches
+    const keywordHits = rule.conditions.keywords.filter(keyword => messageLower.includes(keyword.toLowerCase()));
+    const keywordScore = keywordHits.length * 0.2;
+
     // Intent match
-    if (intent.primary.toLowerCase().replace(/_/g, '-') === rule.intentId) {
-      score += 0.5;
-    }
+    const intentScore = intent.primary.toLowerCase().replace(/_/g, '-') === rule.intentId ? 0.5 : 0;
 
     // Secondary intent match
-    if (intent.secondary.some(s => s.toLowerCase().replace(/_/g, '-') === rule.intentId)) {
-      score += 0.2;
-    }
+    const secondaryScore = intent.secondary.some(s => s.toLowerCase().replace(/_/g, '-') === rule.intentId) ? 0.2 : 0;
+
+    const score = Math.min(keywordScore + intentScore + secondaryScore, 1);
+    return {
+      intentId: rule.intentId,
+      targetAgent: rule.targetAgent,
+      keywordHits,
+      keywordScore: round(keywordScore),
+      intentScore,
+      secondaryScore,
+      score: round(score),
+      minConfidence: rule.conditions.minConfidence,
+      eligible: score >= rule.conditions.minConfidence
+    };
+  }
 
-    return Math.min(score, 1);
+  /**
+   * Audit record for a rule selection (continuity and final agent are filled in by route)
+   */
+  private describeDecision(
+    text: string,
+    intent: IntentClassification,
+    selected: { targetAgent: AgentConfig; rule?: RoutingRule; candidates: RuleCandidate[] }
+  ): RoutingDecision {
+    return {
+      text: text.slice(0, 200),
+      intent: {
+        primary: intent.primary,
+        secondary: intent.secondary,
+        confidence: intent.confidence,
+        classifier: this.classifier.type
+      },
+      candidates: [...selected.candidates].sort((a, b) => b.score - a.score),
+      ruleWinner: selected.rule?.intentId,
+      ruleAgent: selected.targetAgent.id,
+      finalAgent: selected.targetAgent.id
+    };
   }
 
   private isRelatedToCurrentAgent(intent: IntentClassification, agent: AgentConfig): boolean {
@@ -216,7 +497,7 @@ export class Orchestrator {
     });
   }
 
-  private determineEscalationReason(message: string, session: Session): string {
+  private determineEscalationReason(message: string, session: Session, trigger?: string): string {
     const messageLower = message.toLowerCase();
 
     if (messageLower.includes('human') || messageLower.includes('speak to') ||
@@ -225,6 +506,11 @@ export class Orchestrator {
       return 'customer explicitly requested human agent';
     }
 
+    // Frustration or a workflow condition that held
+    if (trigger) {
+      return trigger;
+    }
+
     if (session.context.intentHistory.length > 3) {
       return 'complex issue requiring multiple intents';
     }
@@ -236,7 +522,37 @@ export class Orchestrator {
     return 'agent cannot safely proceed';
   }
 
+  /**
+   * Put the session in the human work queue and note its priority and SLA in
+   * the summary. Returns the customer message for the current support hours
+   * and the item's creation time.
+   */
+  private enqueueEscalation(
+    session: Session,
+    reason: string,
+    summary: Record<string, unknown>
+  ): { customerMessage: string; escalatedAt: string } {
+    const calendar = this.config.brandContext.supportCalendar;
+    const item = escalationQueue.enqueue(session, reason, {
+      slaMinutes: this.escalationConfig.slaMinutes,
+      sentiment: session.context.sentiment?.average,
+      calendar
+    });
+    summary.queue_id = item.id;
+    summary.priority = item.priority;
+    summary.sla_minutes = item.slaMinutes;
+    summary.sla_due_at = item.slaDueAt;
+
+    if (!calendar) return { customerMessage: this.escalationConfig.customerMessage, escalatedAt: item.createdAt };
+
+    const eta = escalationEta(calendar, item.slaMinutes, new Date(item.createdAt));
+    summary.support_status = eta.status;
+    summary.expected_response = eta.expectedResponse;
+    return { customerMessage: escalationMessage(eta, this.escalationConfig.customerMessages), escalatedAt: item.createdAt };
+  }
+
   private buildEscalationSummary(session: Session): Record<string, unknown> {
+    const sentiment = session.context.sentiment;
     return {
       session_id: session.id,
       customer: {
@@ -245,6 +561,16 @@ export class Orchestrator {
         shopify_id: session.shopifyCustomerId
       },
       issue_type: session.context.intentHistory[0] || 'unknown',
+      customer_sentiment: sentiment
+        ? {
+            label: sentimentLabel(sentiment.average),
+            average: sentiment.average,
+            current: sentiment.current,
+            frustration: sentiment.frustration,
+            trend: sentiment.trend,
+            signals: sentiment.signals
+          }
+        : 'unknown',
       message_count: session.messages.length,
       tool_calls: session.toolCalls.map(t => ({
         tool: t.toolHandle,
@@ -259,3 +585,7 @@ export class Orchestrator {
     };
   }
 }
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
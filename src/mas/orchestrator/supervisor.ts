@@ -0,0 +1,119 @@
+/**
+ * Supervisor — LLM-driven planning over specialist agents
+ *
+ * The supervisor reads the customer message and picks which specialists
+ * to consult. Specialists report back privately; the supervisor agent then
+ * writes the customer reply from their reports.
+ */
+
+import { AgentConfig, SupervisorConfig } from '../../meta/agent-generator';
+import { LLMClient, agentLLMOptions } from '../agents/executor';
+import type { Session } from '../memory';
+
+export interface SupervisorPlan {
+  consult: string[];
+  reason: string;
+}
+
+export interface Consultation {
+  agentId: string;
+  report: string;
+}
+
+export const DEFAULT_MAX_CONSULTATIONS = 2;
+
+// Recent messages shown to the planner
+const PLAN_HISTORY_MESSAGES = 6;
+
+export const CONSULTATION_BRIEF = `The supervisor is consulting you about this customer message.
+Handle the part of the request that belongs to your area (use your tools) and report what you found or did.
+Your report goes to the supervisor, not to the customer.`;
+
+/**
+ * Plans specialist consultations for the supervisor agent
+ */
+export class Supervisor {
+  private agent: AgentConfig;
+  private specialists: AgentConfig[];
+  private llmClient: LLMClient;
+  private maxConsultations: number;
+
+  constructor(agent: AgentConfig, specialists: AgentConfig[], llmClient: LLMClient, config?: Partial<SupervisorConfig>) {
+    this.agent = agent;
+    this.specialists = specialists.filter(a => a.id !== agent.id);
+    this.llmClient = llmClient;
+    this.maxConsultations = config?.maxConsultations ?? DEFAULT_MAX_CONSULTATIONS;
+  }
+
+  getAgentId(): string {
+    return this.agent.id;
+  }
+
+  /**
+   * Ask the LLM which specialists to consult. Returns undefined when the
+   * answer is not a usable plan, so the caller can fall back to routing.
+   */
+  async plan(session: Session, message: string): Promise<SupervisorPlan | undefined> {
+    const specialists = this.specialists.map(a => `- ${a.id}: ${a.description}`).join('\n');
+    // The runtime has already recorded the new message; it goes in once, below
+    const last = session.messages[session.messages.length - 1];
+    const earlier = last?.role === 'customer' && last.content === message
+      ? session.messages.slice(0, -1)
+      : session.messages;
+    const history = earlier
+      .slice(-PLAN_HISTORY_MESSAGES)
+      .map(m => `${m.role}: ${m.content.slice(0, 200)}`)
+      .join('\n');
+
+    const response = await this.llmClient.chat([
+      {
+        role: 'system',
+        content: `${this.agent.systemPrompt}
+
+You are the SUPERVISOR for this conversation. Decide which specialists to consult before you reply.
+
+SPECIALISTS:
+${specialists}
+
+Respond with JSON only: {"consult": ["agent-id"], "reason": "short reason"}
+Consult at most ${this.maxConsultations} specialist(s). Use an empty list if you can answer directly.`
+      },
+      {
+        role: 'user',
+        content: history ? `CONVERSATION SO FAR:\n${history}\n\nNEW MESSAGE:\n${message}` : message
+      }
+    ], undefined, { ...agentLLMOptions(this.agent), sessionId: session.id });
+
+    return this.parsePlan(response.content);
+  }
+
+  /**
+   * Specialist reports as a task for the supervisor's final reply
+   */
+  formatReports(consultations: Consultation[]): string {
+    if (consultations.length === 0) {
+      return 'No specialists were consulted. Answer the customer directly.';
+    }
+    const reports = consultations.map(c => `[${c.agentId}]\n${c.report}`).join('\n\n');
+    return `Write the final reply to the customer using these specialist reports. Do not mention the specialists.\n\nSPECIALIST REPORTS:\n${reports}`;
+  }
+
+  private parsePlan(content: string | null): SupervisorPlan | undefined {
+    const json = content?.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) return undefined;
+
+    try {
+      const parsed = JSON.parse(json) as { consult?: unknown; reason?: unknown };
+      if (!Array.isArray(parsed.consult)) return undefined;
+
+      const known = new Set(this.specialists.map(a => a.id));
+      const consult = [...new Set(parsed.consult.filter((id): id is string => typeof id === 'string' && known.has(id)))];
+      return {
+        consult: consult.slice(0, this.maxConsultations),
+        reason: typeof parsed.reason === 'string' ? parsed.reason : 'supervisor plan'
+      };
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -9,16 +9,33 @@
  */
 
 import { MASConfig, AgentConfig } from '../meta/agent-generator';
-import { memoryStore, Session } from './memory';
-import { Orchestrator } from './orchestrator';
-import { AgentExecutor, LLMClient, createLLMClient, createAnthropicClient, createOpenAIClient } from './agents/executor';
+import { memoryStore, Session, SessionStatus, ResolutionOutcome, StatusTransition } from './memory';
+import { createSessionStorage } from './memory/storage';
+import { customerProfiles, CustomerProfile } from './memory/profiles';
+import { scoreSentiment } from './memory/sentiment';
+import { Orchestrator, IntentBranch, BranchResult, RoutingDecision, branchInstruction, mergeInstruction } from './orchestrator';
+import { Supervisor, Consultation, CONSULTATION_BRIEF } from './orchestrator/supervisor';
+import { AgentExecutor, AgentResponse, LLMClient, createLLMClient, createAnthropicClient, createOpenAIClient } from './agents/executor';
 import { tracer } from './tracing';
+import { sessionStream, StreamListener } from './tracing/stream';
+import { escalationQueue, EscalationItem, EscalationItemStatus } from './escalation';
+import { parseEmail, extractReplyText, splitName } from './email';
+import { renderReplyEmail, OutboundEmail } from './email/outbound';
 
 export interface SessionStartParams {
   customerEmail: string;
   firstName: string;
   lastName: string;
   shopifyCustomerId: string;
+  // Email thread identity: conversationId or Message-ID of the first email
+  threadId?: string;
+  // In-Reply-To / References of a reply, matched against known thread keys
+  references?: string[];
+}
+
+export interface SessionStartResult {
+  sessionId: string;
+  resumed: boolean;
 }
 
 export interface MessageResponse {
@@ -26,9 +43,15 @@ export interface MessageResponse {
   message: string;
   escalated: boolean;
   escalationSummary?: Record<string, unknown>;
+  humanAgent?: string; // Set while a human owns the thread; no auto reply is sent
   trace?: string;
 }
 
+export interface InboundEmailResponse extends MessageResponse {
+  resumed: boolean;
+  customerEmail: string;
+}
+
 /**
  * MAS Runtime
  */
@@ -37,6 +60,7 @@ export class MASRuntime {
   private orchestrator: Orchestrator;
   private llmClient: LLMClient;
   private executors: Map<string, AgentExecutor> = new Map();
+  private supervisor?: Supervisor;
 
   constructor(config: MASConfig, llmClient?: LLMClient) {
     this.config = config;
@@ -49,46 +73,173 @@ export class MASRuntime {
       this.llmClient = createLLMClient();
     }
 
+    // Durable sessions when the config asks for them
+    if (config.memory?.type === 'persistent') {
+      memoryStore.useStorage(createSessionStorage(config.memory));
+      customerProfiles.useFile(process.env.PROFILE_STORE_PATH || '.mas/profiles.json');
+
+      // Rebuild the work queue from sessions still waiting on a human; the
+      // original escalation time restores each item's ID and SLA deadline
+      for (const session of memoryStore.getSessionsByStatus('escalated')) {
+        escalationQueue.enqueue(session, session.context.escalationReason || 'unknown', {
+          slaMinutes: config.orchestrator.escalationHandler.slaMinutes,
+          sentiment: session.context.sentiment?.average,
+          calendar: config.brandContext.supportCalendar,
+          now: Date.parse(session.context.escalatedAt ?? session.lastActivity)
+        });
+        if (session.context.humanAgent) {
+          escalationQueue.markClaimed(session.id, session.context.humanAgent);
+        }
+      }
+    }
+
     // Pre-create executors for all agents
     for (const agent of config.orchestrator.agents) {
-      this.executors.set(agent.id, new AgentExecutor(agent, this.llmClient));
+      this.executors.set(agent.id, new AgentExecutor(agent, this.llmClient, 5, {
+        maxTurns: config.memory?.maxTurns,
+        tokenBudget: config.memory?.tokenBudget
+      }, (sessionId, reason, summary) => this.orchestrator.escalate(sessionId, reason, summary)));
+    }
+
+    // Supervisor mode: the supervisor agent plans consultations over the others
+    if (config.orchestrator.type === 'supervisor') {
+      const agentId = config.orchestrator.supervisor?.agentId ?? config.orchestrator.fallbackAgent;
+      const agent = this.orchestrator.getAgent(agentId);
+      if (!agent) {
+        throw new Error(`Unknown supervisor agent: ${agentId}`);
+      }
+      this.supervisor = new Supervisor(agent, config.orchestrator.agents, this.llmClient, config.orchestrator.supervisor);
     }
   }
 
   /**
    * Requirement 1: Start new email session
+   * A reply on a known thread resumes the existing session instead.
    */
   startSession(params: SessionStartParams): string {
+    return this.startOrResumeSession(params).sessionId;
+  }
+
+  /**
+   * Start a session, or attach to the existing one for this email thread.
+   * Only the customer who owns the thread resumes it; anyone else writing
+   * on it gets a session of their own.
+   */
+  startOrResumeSession(params: SessionStartParams): SessionStartResult {
+    let threadKeys = [params.threadId, ...(params.references || [])]
+      .filter((k): k is string => !!k);
+
+    const existing = memoryStore.findSessionByThread(threadKeys, params.customerEmail);
+    if (existing) {
+      memoryStore.addThreadKeys(existing.id, threadKeys);
+      if (!tracer.getTrace(existing.id)) {
+        tracer.initSession(existing.id);
+      }
+      console.log(`[MAS] Session resumed: ${existing.id} (thread ${threadKeys[0]})`);
+      return { sessionId: existing.id, resumed: true };
+    }
+
+    // Another customer's thread: keep only this message's own key
+    if (memoryStore.findSessionByThread(threadKeys)) {
+      console.log(`[MAS] Thread ${threadKeys[0]} belongs to another customer; starting a new session for ${params.customerEmail}`);
+      threadKeys = params.threadId ? [params.threadId] : [];
+    }
+
     const session = memoryStore.startSession(params);
+    memoryStore.addThreadKeys(session.id, threadKeys);
     tracer.initSession(session.id);
 
     console.log(`[MAS] Session started: ${session.id}`);
     console.log(`[MAS] Customer: ${params.firstName} ${params.lastName} (${params.customerEmail})`);
 
-    return session.id;
+    return { sessionId: session.id, resumed: false };
+  }
+
+  /**
+   * Look up the session for an email thread key
+   */
+  findSessionByThread(threadKey: string): Session | undefined {
+    return memoryStore.findSessionByThread([threadKey]);
   }
 
   /**
    * Requirement 2: Handle customer message with continuous memory
    */
-  async handleMessage(sessionId: string, message: string): Promise<MessageResponse> {
+  async handleMessage(sessionId: string, message: string, metadata?: Record<string, unknown>): Promise<MessageResponse> {
+    let response: MessageResponse;
+    try {
+      response = await this.processMessage(sessionId, message, metadata);
+    } catch (error) {
+      sessionStream.publish(sessionId, 'error', { error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+
+    // Fold this session into the customer's cross-session profile
+    const session = memoryStore.getSession(sessionId);
+    if (session) {
+      customerProfiles.syncSession(session, session.context.sentiment?.average);
+    }
+
+    // Live subscribers get the final reply (trace events only keep a preview)
+    sessionStream.publish(sessionId, 'done', {
+      message: response.message,
+      escalated: response.escalated,
+      humanAgent: response.humanAgent
+    });
+
+    return response;
+  }
+
+  /**
+   * Watch a session live: routing decisions, tool calls, reply tokens and
+   * the final reply. Returns the unsubscribe function.
+   */
+  subscribe(sessionId: string, listener: StreamListener): () => void {
+    if (!memoryStore.getSession(sessionId)) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    return sessionStream.subscribe(sessionId, listener);
+  }
+
+  private async processMessage(sessionId: string, message: string, metadata?: Record<string, unknown>): Promise<MessageResponse> {
     const session = memoryStore.getSession(sessionId);
     if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
     }
 
+    // Sessions restored from storage have no trace in this process yet
+    if (!tracer.getTrace(sessionId)) {
+      tracer.initSession(sessionId);
+    }
+
+    // A new customer reply reopens a closed conversation
+    if (session.status === 'resolved' || session.status === 'expired') {
+      this.reopenSession(sessionId, 'customer replied');
+    }
+    if (session.status === 'archived') {
+      throw new Error(`Session is archived: ${sessionId}`);
+    }
+
     // Check if already escalated (Requirement 4: no further auto replies)
     if (memoryStore.isEscalated(sessionId)) {
+      // Keep the customer's words for the human agent
+      memoryStore.addMessage(sessionId, 'customer', message, metadata);
+      memoryStore.recordSentiment(sessionId, scoreSentiment(message));
+      tracer.traceMessage(sessionId, 'customer', message);
+
+      const held = this.orchestrator.checkEscalation(sessionId, message);
       return {
         sessionId,
-        message: 'This issue has been escalated to our team. A specialist will respond shortly.',
+        message: held.customerMessage ?? '',
         escalated: true,
-        escalationSummary: session.context.escalationSummary
+        escalationSummary: session.context.escalationSummary,
+        humanAgent: session.context.humanAgent
       };
     }
 
     // Record customer message
-    memoryStore.addMessage(sessionId, 'customer', message);
+    memoryStore.addMessage(sessionId, 'customer', message, metadata);
+    memoryStore.recordSentiment(sessionId, scoreSentiment(message));
     tracer.traceMessage(sessionId, 'customer', message);
 
     // Check for explicit escalation request
@@ -102,18 +253,19 @@ export class MASRuntime {
       };
     }
 
-    // Route to appropriate agent
-    const routing = this.orchestrator.route(sessionId, message);
-    console.log(`[MAS] Routed to: ${routing.targetAgent.id} (confidence: ${routing.confidence.toFixed(2)})`);
+    // Hand the message to the agents (per MASConfig orchestrator type)
+    const response = await this.runAgents(sessionId, message);
 
-    // Execute agent
-    const executor = this.executors.get(routing.targetAgent.id);
-    if (!executor) {
-      throw new Error(`No executor for agent: ${routing.targetAgent.id}`);
+    // An agent called escalate_to_human; its handoff message is the reply
+    if (response.escalated) {
+      return {
+        sessionId,
+        message: response.message,
+        escalated: true,
+        escalationSummary: memoryStore.getSession(sessionId)?.context.escalationSummary
+      };
     }
 
-    const response = await executor.execute(sessionId, message);
-
     // Check if response triggers escalation
     const postCheck = this.orchestrator.checkEscalation(sessionId, message, response.message);
     if (postCheck.escalated) {
@@ -132,6 +284,407 @@ export class MASRuntime {
     };
   }
 
+  /**
+   * Dispatch a message according to the orchestrator type
+   */
+  private async runAgents(sessionId: string, message: string): Promise<AgentResponse> {
+    switch (this.config.orchestrator.type) {
+      case 'sequential':
+        return this.runSequence(sessionId, message);
+      case 'supervisor':
+        return this.runSupervisor(sessionId, message);
+      default:
+        return this.runRouted(sessionId, message);
+    }
+  }
+
+  /**
+   * Intent router: one agent picked by keyword/intent scoring
+   */
+  private async runRouted(sessionId: string, message: string): Promise<AgentResponse> {
+    // Compound requests fan out to one specialist per intent
+    const branches = this.orchestrator.planBranches(sessionId, message);
+    if (branches) {
+      return this.runBranches(sessionId, message, branches);
+    }
+
+    const routing = this.orchestrator.route(sessionId, message);
+    console.log(`[MAS] Routed to: ${routing.targetAgent.id} (confidence: ${routing.confidence.toFixed(2)})`);
+
+    const held = this.checkAgentConditions(sessionId, message, [routing.targetAgent.id]);
+    if (held) return held;
+
+    if (routing.previousAgent) {
+      await this.handOff(sessionId, routing.previousAgent, routing.targetAgent.id, routing.intent.primary);
+    }
+
+    return this.getExecutor(routing.targetAgent.id).execute(sessionId, message);
+  }
+
+  /**
+   * Run each branch's specialist in parallel, then merge the reports into one reply
+   */
+  private async runBranches(sessionId: string, message: string, branches: IntentBranch[]): Promise<AgentResponse> {
+    console.log(`[MAS] Compound request split into ${branches.length} branches`);
+
+    const held = this.checkAgentConditions(sessionId, message, branches.map(b => b.agent.id));
+    if (held) return held;
+
+    const settled = await Promise.allSettled(branches.map((branch, index) => {
+      tracer.traceRouting(sessionId, 'orchestrator', branch.agent.id, `branch ${index + 1}/${branches.length}: ${branch.intents.join(', ')}`);
+      return this.getExecutor(branch.agent.id).execute(sessionId, message, {
+        instruction: branchInstruction(branch, branches),
+        record: false
+      });
+    }));
+
+    const toolCalls: AgentResponse['toolCalls'] = [];
+    const results: BranchResult[] = settled.map((outcome, index) => {
+      const branch = branches[index];
+      const result: BranchResult = outcome.status === 'fulfilled'
+        ? { branch, reply: outcome.value.message }
+        : { branch, error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) };
+      const branchToolCalls = outcome.status === 'fulfilled' ? outcome.value.toolCalls : [];
+      toolCalls.push(...branchToolCalls);
+
+      tracer.traceBranch(sessionId, {
+        index: index + 1,
+        total: branches.length,
+        agent: branch.agent.id,
+        intents: branch.intents,
+        text: branch.text,
+        success: outcome.status === 'fulfilled',
+        reply: result.reply,
+        error: result.error,
+        toolCalls: branchToolCalls.length
+      });
+      return result;
+    });
+
+    // A branch handed off to a human: nothing left to merge
+    const escalated = settled.find(o => o.status === 'fulfilled' && o.value.escalated);
+    if (escalated?.status === 'fulfilled') {
+      return { message: escalated.value.message, toolCalls, escalated: true };
+    }
+
+    // The fallback agent writes the combined reply
+    const merger = this.orchestrator.getFallbackAgent();
+    tracer.traceRouting(sessionId, 'orchestrator', merger.id, 'merge branch replies');
+    memoryStore.setCurrentAgent(sessionId, merger.id);
+
+    const response = await this.getExecutor(merger.id).execute(sessionId, message, {
+      instruction: mergeInstruction(results)
+    });
+    return { ...response, toolCalls: [...toolCalls, ...response.toolCalls] };
+  }
+
+  /**
+   * Sequential: run the configured chain; each step sees the earlier steps'
+   * reports and only the last step answers the customer
+   */
+  private async runSequence(sessionId: string, message: string): Promise<AgentResponse> {
+    const steps = this.config.orchestrator.sequence || [];
+    if (steps.length === 0) {
+      return this.runRouted(sessionId, message);
+    }
+
+    memoryStore.recordIntent(sessionId, this.orchestrator.classify(message).primary);
+
+    const toolCalls: AgentResponse['toolCalls'] = [];
+    const reports: string[] = [];
+    let previous = memoryStore.getSession(sessionId)?.context.currentAgent || 'none';
+    let response: AgentResponse | undefined;
+
+    for (const [index, step] of steps.entries()) {
+      const isLast = index === steps.length - 1;
+      tracer.traceRouting(sessionId, previous, step.agentId, `sequence step ${index + 1}/${steps.length}`);
+      memoryStore.setCurrentAgent(sessionId, step.agentId);
+
+      const held = this.checkAgentConditions(sessionId, message, [step.agentId]);
+      if (held) return { ...held, toolCalls };
+
+      let instruction = `STEP ${index + 1} OF ${steps.length}: ${step.instruction}`;
+      if (reports.length > 0) {
+        instruction += `\n\nEARLIER STEPS:\n${reports.join('\n')}`;
+      }
+      if (!isLast) {
+        instruction += '\n\nReport your result for the next step. This report is not sent to the customer.';
+      }
+
+      response = await this.getExecutor(step.agentId).execute(sessionId, message, { instruction, record: isLast });
+      toolCalls.push(...response.toolCalls);
+      if (response.escalated) {
+        return { message: response.message, toolCalls, escalated: true };
+      }
+      reports.push(`- ${step.agentId}: ${response.message}`);
+      previous = step.agentId;
+    }
+
+    return { message: response!.message, toolCalls };
+  }
+
+  /**
+   * Supervisor: the supervisor agent consults specialists privately, then replies
+   */
+  private async runSupervisor(sessionId: string, message: string): Promise<AgentResponse> {
+    const session = memoryStore.getSession(sessionId);
+    const plan = session && await this.supervisor!.plan(session, message);
+    if (!plan) {
+      console.log('[MAS] Supervisor plan unusable, falling back to intent routing');
+      return this.runRouted(sessionId, message);
+    }
+
+    memoryStore.recordIntent(sessionId, this.orchestrator.classify(message).primary);
+
+    const supervisorId = this.supervisor!.getAgentId();
+    const toolCalls: AgentResponse['toolCalls'] = [];
+    const consultations: Consultation[] = [];
+
+    const held = this.checkAgentConditions(sessionId, message, [...plan.consult, supervisorId]);
+    if (held) return held;
+
+    for (const agentId of plan.consult) {
+      tracer.traceRouting(sessionId, supervisorId, agentId, `supervisor: ${plan.reason}`);
+      const report = await this.getExecutor(agentId).execute(sessionId, message, {
+        instruction: CONSULTATION_BRIEF,
+        record: false
+      });
+      toolCalls.push(...report.toolCalls);
+      if (report.escalated) {
+        return { message: report.message, toolCalls, escalated: true };
+      }
+      consultations.push({ agentId, report: report.message });
+    }
+
+    const previous = consultations[consultations.length - 1]?.agentId || session.context.currentAgent || 'none';
+    if (previous !== supervisorId) {
+      tracer.traceRouting(sessionId, previous, supervisorId, 'supervisor composes reply');
+    }
+    memoryStore.setCurrentAgent(sessionId, supervisorId);
+
+    const response = await this.getExecutor(supervisorId).execute(sessionId, message, {
+      instruction: this.supervisor!.formatReports(consultations)
+    });
+    return { ...response, toolCalls: [...toolCalls, ...response.toolCalls] };
+  }
+
+  /**
+   * Escalate before the given agents run when one of their own workflow
+   * conditions already holds; returns the escalation reply, else undefined
+   */
+  private checkAgentConditions(sessionId: string, message: string, agentIds: string[]): AgentResponse | undefined {
+    for (const agentId of new Set(agentIds)) {
+      const check = this.orchestrator.checkAgentConditions(sessionId, message, agentId);
+      if (check.escalated) {
+        return { message: check.customerMessage || 'Escalating to our team.', toolCalls: [], escalated: true };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The outgoing agent leaves a note on the session for the incoming one
+   */
+  private async handOff(sessionId: string, fromAgent: string, toAgent: string, reason: string): Promise<void> {
+    const executor = this.executors.get(fromAgent);
+    if (!executor) return;
+
+    const note = await executor.handoff(sessionId, toAgent, reason);
+    memoryStore.recordHandoff(sessionId, note);
+    tracer.traceHandoff(sessionId, note);
+  }
+
+  private getExecutor(agentId: string): AgentExecutor {
+    const executor = this.executors.get(agentId);
+    if (!executor) {
+      throw new Error(`No executor for agent: ${agentId}`);
+    }
+    return executor;
+  }
+
+  /**
+   * Ingest a raw RFC 5322 email: resolve customer and thread, then handle the reply text
+   */
+  async handleInboundEmail(raw: string): Promise<InboundEmailResponse> {
+    const email = parseEmail(raw);
+    if (!email.from.email) {
+      throw new Error('Inbound email has no From address');
+    }
+
+    const message = extractReplyText(email.text);
+    if (!message) {
+      throw new Error('Inbound email has no reply text');
+    }
+
+    // Reuse what we know about this customer from earlier sessions
+    const known = memoryStore.getSessionsByCustomer(email.from.email)[0];
+    const name = splitName(email.from.name);
+
+    // The From address must own the thread: a forged In-Reply-To/References
+    // from another sender starts a session of its own
+    const { sessionId, resumed } = this.startOrResumeSession({
+      customerEmail: email.from.email,
+      firstName: name.firstName || known?.customerFirstName || '',
+      lastName: name.lastName || known?.customerLastName || '',
+      shopifyCustomerId: known?.shopifyCustomerId || '',
+      threadId: email.messageId,
+      references: [email.inReplyTo, ...email.references].filter((r): r is string => !!r)
+    });
+
+    const response = await this.handleMessage(sessionId, message, {
+      messageId: email.messageId,
+      subject: email.subject,
+      references: email.references
+    });
+    return { ...response, resumed, customerEmail: email.from.email };
+  }
+
+  /**
+   * Render a reply as a threaded multipart email (defaults to the last agent message)
+   */
+  renderReplyEmail(sessionId: string, reply?: string): OutboundEmail {
+    const session = memoryStore.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const text = reply ?? session.messages.filter(m => m.role === 'agent').pop()?.content;
+    if (!text) {
+      throw new Error(`No agent reply to render for session: ${sessionId}`);
+    }
+
+    const email = renderReplyEmail({ session, reply: text, brand: this.config.brandContext });
+
+    // The customer's answer will reference our Message-ID
+    memoryStore.addThreadKeys(sessionId, [email.messageId]);
+
+    return email;
+  }
+
+  /**
+   * Human agent claims an escalated session
+   */
+  claimSession(sessionId: string, humanAgent: string): void {
+    const queued = escalationQueue.getBySession(sessionId);
+    if (queued?.status === 'assigned' && queued.assignee !== humanAgent) {
+      throw new Error(`Escalation is assigned to ${queued.assignee}`);
+    }
+
+    memoryStore.claim(sessionId, humanAgent);
+    escalationQueue.markClaimed(sessionId, humanAgent);
+    tracer.traceHumanAction(sessionId, 'claim', humanAgent);
+  }
+
+  /**
+   * Human agent replies in-thread on a claimed session
+   */
+  postHumanReply(sessionId: string, humanAgent: string, message: string): void {
+    const session = memoryStore.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    if (session.context.humanAgent !== humanAgent) {
+      throw new Error(`Session is not claimed by ${humanAgent}`);
+    }
+
+    memoryStore.addMessage(sessionId, 'agent', message, undefined, `human:${humanAgent}`);
+    tracer.traceMessage(sessionId, 'agent', message);
+    tracer.traceHumanAction(sessionId, 'reply', humanAgent, message);
+  }
+
+  /**
+   * Human agent hands the session back to automation
+   */
+  releaseSession(sessionId: string, humanAgent: string, note: string): StatusTransition {
+    const transition = memoryStore.release(sessionId, humanAgent, note);
+    escalationQueue.markCompleted(sessionId, 'handed_back', note);
+    tracer.traceHumanAction(sessionId, 'release', humanAgent, note);
+    tracer.traceLifecycle(sessionId, transition.from, transition.to, transition.reason);
+    return transition;
+  }
+
+  /**
+   * Resolve session with an outcome code
+   */
+  resolveSession(sessionId: string, outcome: ResolutionOutcome, note?: string): StatusTransition {
+    const transition = memoryStore.resolve(sessionId, outcome, note);
+    escalationQueue.markCompleted(sessionId, 'resolved', note);
+    tracer.traceLifecycle(sessionId, transition.from, transition.to, transition.reason);
+    return transition;
+  }
+
+  /**
+   * Reopen a resolved or expired session
+   */
+  reopenSession(sessionId: string, reason: string): StatusTransition {
+    const transition = memoryStore.reopen(sessionId, reason);
+    tracer.traceLifecycle(sessionId, transition.from, transition.to, transition.reason);
+    return transition;
+  }
+
+  /**
+   * Archive a resolved or expired session
+   */
+  archiveSession(sessionId: string): StatusTransition {
+    const transition = memoryStore.archive(sessionId);
+    tracer.traceLifecycle(sessionId, transition.from, transition.to, transition.reason);
+    return transition;
+  }
+
+  /**
+   * Expire active sessions idle longer than MemoryConfig.inactivityTimeoutMinutes
+   * (escalated sessions keep their place in the human queue)
+   */
+  expireInactiveSessions(now: number = Date.now()): string[] {
+    const timeoutMinutes = this.config.memory?.inactivityTimeoutMinutes ?? 72 * 60;
+    const expired = memoryStore.expireInactive(timeoutMinutes * 60 * 1000, now);
+
+    for (const transition of expired) {
+      if (!tracer.getTrace(transition.sessionId)) {
+        tracer.initSession(transition.sessionId);
+      }
+      tracer.traceLifecycle(transition.sessionId, transition.from, transition.to, transition.reason);
+    }
+
+    return expired.map(t => t.sessionId);
+  }
+
+  /**
+   * Escalation queue in work order, optionally filtered by status
+   */
+  getEscalations(status?: EscalationItemStatus): EscalationItem[] {
+    return escalationQueue.list(status);
+  }
+
+  /**
+   * Assign a queued escalation to a named human agent
+   */
+  assignEscalation(itemId: string, humanAgent: string): EscalationItem {
+    return escalationQueue.assign(itemId, humanAgent);
+  }
+
+  /**
+   * Claim a queued escalation: the human agent takes over its session
+   */
+  claimEscalation(itemId: string, humanAgent: string): EscalationItem {
+    const item = this.requireEscalation(itemId);
+    this.claimSession(item.sessionId, humanAgent);
+    return item;
+  }
+
+  /**
+   * Complete a claimed escalation by resolving its session
+   */
+  completeEscalation(itemId: string, humanAgent: string, note?: string): EscalationItem {
+    const item = this.requireEscalation(itemId);
+    if (item.status !== 'claimed' || item.assignee !== humanAgent) {
+      throw new Error(`Escalation must be claimed by ${humanAgent} before completing`);
+    }
+
+    this.resolveSession(item.sessionId, 'escalation_resolved', note);
+    return item;
+  }
+
   /**
    * Requirement 3: Get trace for session
    */
@@ -146,6 +699,13 @@ export class MASRuntime {
     return tracer.exportTrace(sessionId);
   }
 
+  /**
+   * Routing decisions (rule scores, continuity override, final agent) for a session
+   */
+  getRoutingDecisions(sessionId: string): Array<RoutingDecision & { timestamp: string }> {
+    return tracer.getRoutingDecisions(sessionId);
+  }
+
   /**
    * Get session summary
    */
@@ -153,6 +713,13 @@ export class MASRuntime {
     return memoryStore.getSessionSummary(sessionId);
   }
 
+  /**
+   * Get cross-session profile by email or Shopify customer ID
+   */
+  getCustomerProfile(emailOrCustomerId: string): CustomerProfile | undefined {
+    return customerProfiles.getProfile({ email: emailOrCustomerId, shopifyCustomerId: emailOrCustomerId });
+  }
+
   /**
    * Get all active sessions
    */
@@ -160,6 +727,13 @@ export class MASRuntime {
     return memoryStore.getActiveSessions();
   }
 
+  /**
+   * Get sessions in a given lifecycle status
+   */
+  getSessionsByStatus(status: SessionStatus): Session[] {
+    return memoryStore.getSessionsByStatus(status);
+  }
+
   /**
    * Get MAS config
    */
@@ -173,6 +747,13 @@ export class MASRuntime {
   getOrchestrator(): Orchestrator {
     return this.orchestrator;
   }
+
+  private requireEscalation(itemId: string): EscalationItem {
+    const item = escalationQueue.get(itemId);
+    if (!item) throw new Error(`Escalation not found: ${itemId}`);
+    if (item.status === 'completed') throw new Error(`Escalation already completed: ${itemId}`);
+    return item;
+  }
 }
 
 // Factory function for easy creation
@@ -7,11 +7,16 @@
  * - Actions taken as result of tool calls
  */
 
+import type { RoutingDecision } from '../orchestrator';
+import type { HandoffNote } from '../agents/handoff';
+import type { LLMAttempt } from '../agents/resilient-client';
+import { sessionStream } from './stream';
+
 export interface TraceEvent {
   id: string;
   sessionId: string;
   timestamp: string;
-  type: 'message' | 'tool_call' | 'routing' | 'escalation' | 'error';
+  type: 'message' | 'tool_call' | 'llm' | 'routing' | 'decision' | 'handoff' | 'branch' | 'escalation' | 'lifecycle' | 'human' | 'error';
   data: Record<string, unknown>;
 }
 
@@ -128,14 +133,18 @@ export class Tracer {
     sessionId: string,
     toolHandle: string,
     params: Record<string, unknown>,
-    result: { success: boolean; data?: unknown; error?: string }
+    result: { success: boolean; data?: unknown; error?: string },
+    latencyMs?: number,
+    callId?: string // The LLM's tool call ID, matching the stream's tool_start
   ): void {
     const event = this.createEvent(sessionId, 'tool_call', {
       tool: toolHandle,
+      callId,
       params: this.logLevel === 'verbose' ? params : { keys: Object.keys(params) },
       success: result.success,
       hasData: !!result.data,
-      error: result.error
+      error: result.error,
+      latencyMs
     });
 
     this.addEvent(sessionId, event);
@@ -145,7 +154,22 @@ export class Tracer {
       else s.failedToolCalls++;
     });
 
-    console.log(`[TRACE] TOOL: ${toolHandle} → ${result.success ? '✓' : '✗'}`);
+    console.log(`[TRACE] TOOL: ${toolHandle} → ${result.success ? '✓' : '✗'}${latencyMs !== undefined ? ` (${latencyMs}ms)` : ''}`);
+  }
+
+  /**
+   * Trace one LLM provider attempt (retries and failover included)
+   */
+  traceLLMAttempt(sessionId: string, attempt: LLMAttempt): void {
+    const event = this.createEvent(sessionId, 'llm', { ...attempt });
+    this.addEvent(sessionId, event);
+
+    if (!attempt.success) {
+      const next = attempt.retryInMs !== undefined
+        ? `retry in ${attempt.retryInMs}ms`
+        : attempt.failover ? `failover to ${attempt.failover}` : 'giving up';
+      console.log(`[TRACE] LLM: ${attempt.provider} attempt ${attempt.attempt} ✗ ${attempt.error} (${next})`);
+    }
   }
 
   /**
@@ -166,6 +190,69 @@ export class Tracer {
     console.log(`[TRACE] ROUTE: ${fromAgent} → ${toAgent}`);
   }
 
+  /**
+   * Trace how the orchestrator picked an agent: every rule's score, the
+   * continuity check and the final pick (recorded even when the agent stays)
+   */
+  traceRoutingDecision(sessionId: string, decision: RoutingDecision): void {
+    const event = this.createEvent(sessionId, 'decision', { ...decision });
+    this.addEvent(sessionId, event);
+
+    if (this.logLevel === 'verbose') {
+      const top = decision.candidates[0];
+      console.log(`[TRACE] DECISION: ${decision.intent.primary} → ${decision.finalAgent}${top ? ` (top rule ${top.intentId} ${top.score})` : ''}`);
+    }
+  }
+
+  /**
+   * Routing decisions for a session, oldest first
+   */
+  getRoutingDecisions(sessionId: string): Array<RoutingDecision & { timestamp: string }> {
+    const trace = this.traces.get(sessionId);
+    if (!trace) return [];
+
+    return trace.timeline
+      .filter(e => e.type === 'decision')
+      .map(e => ({ ...(e.data as unknown as RoutingDecision), timestamp: e.timestamp }));
+  }
+
+  /**
+   * Trace the note an outgoing agent left for the incoming one
+   */
+  traceHandoff(sessionId: string, note: HandoffNote): void {
+    const event = this.createEvent(sessionId, 'handoff', { ...note });
+    this.addEvent(sessionId, event);
+
+    console.log(`[TRACE] HANDOFF: ${note.from} → ${note.to} (${note.factsVerified.length} facts, ${note.actionsTaken.length} actions, ${note.pendingPromises.length} promises)`);
+  }
+
+  /**
+   * Trace one branch of a compound request (its part, agent and outcome)
+   */
+  traceBranch(sessionId: string, branch: {
+    index: number;
+    total: number;
+    agent: string;
+    intents: string[];
+    text: string;
+    success: boolean;
+    reply?: string;
+    error?: string;
+    toolCalls: number;
+  }): void {
+    const event = this.createEvent(sessionId, 'branch', {
+      ...branch,
+      reply: branch.reply && this.logLevel !== 'verbose' ? branch.reply.slice(0, 200) : branch.reply
+    });
+
+    this.addEvent(sessionId, event);
+    this.updateSummary(sessionId, s => {
+      if (!s.agents.includes(branch.agent)) s.agents.push(branch.agent);
+    });
+
+    console.log(`[TRACE] BRANCH ${branch.index}/${branch.total}: ${branch.agent} (${branch.intents.join(', ')}) ${branch.success ? '✓' : '✗'}`);
+  }
+
   /**
    * Trace escalation (Requirement 4)
    */
@@ -181,6 +268,34 @@ export class Tracer {
     console.log(`[TRACE] ESCALATION: ${reason}`);
   }
 
+  /**
+   * Trace session lifecycle transition (resolve, reopen, expire, archive)
+   */
+  traceLifecycle(sessionId: string, from: string, to: string, reason: string): void {
+    const event = this.createEvent(sessionId, 'lifecycle', {
+      from,
+      to,
+      reason
+    });
+
+    this.addEvent(sessionId, event);
+    console.log(`[TRACE] LIFECYCLE: ${from} → ${to} (${reason})`);
+  }
+
+  /**
+   * Trace human agent action (claim, reply, release)
+   */
+  traceHumanAction(sessionId: string, action: 'claim' | 'reply' | 'release', humanAgent: string, detail?: string): void {
+    const event = this.createEvent(sessionId, 'human', {
+      action,
+      humanAgent,
+      detail: detail && this.logLevel !== 'verbose' ? detail.slice(0, 100) : detail
+    });
+
+    this.addEvent(sessionId, event);
+    console.log(`[TRACE] HUMAN: ${humanAgent} ${action}`);
+  }
+
   /**
    * Trace error
    */
@@ -242,14 +357,37 @@ export class Tracer {
           line += `: ${event.data.role} - "${(event.data.content as string).slice(0, 40)}..."`;
           break;
         case 'tool_call':
-          line += `: ${event.data.tool} → ${event.data.success ? '✓' : '✗'}`;
+          line += `: ${event.data.tool} → ${event.data.success ? '✓' : '✗'}${event.data.latencyMs !== undefined ? ` (${event.data.latencyMs}ms)` : ''}`;
+          break;
+        case 'llm':
+          line += `: ${event.data.provider} #${event.data.attempt} ${event.data.success ? '✓' : `✗ ${event.data.error}`} (${event.data.latencyMs}ms)`;
+          if (event.data.retryInMs !== undefined) line += ` → retry in ${event.data.retryInMs}ms`;
+          else if (event.data.failover) line += ` → ${event.data.failover}`;
           break;
         case 'routing':
           line += `: ${event.data.from} → ${event.data.to}`;
           break;
+        case 'decision': {
+          const decision = event.data as unknown as RoutingDecision;
+          const override = decision.continuity?.applied ? ` (stayed: ${decision.continuity.reason})` : '';
+          line += `: ${decision.intent.primary} → ${decision.finalAgent} via ${decision.ruleWinner ?? 'fallback'}${override}`;
+          break;
+        }
+        case 'handoff':
+          line += `: ${event.data.from} → ${event.data.to} (${(event.data.factsVerified as string[]).length} facts, ${(event.data.actionsTaken as string[]).length} actions, ${(event.data.pendingPromises as string[]).length} promises, by ${event.data.source})`;
+          break;
+        case 'branch':
+          line += `: ${event.data.index}/${event.data.total} ${event.data.agent} (${(event.data.intents as string[]).join(', ')}) ${event.data.success ? '✓' : '✗'}`;
+          break;
         case 'escalation':
           line += `: ${event.data.reason}`;
           break;
+        case 'human':
+          line += `: ${event.data.humanAgent} ${event.data.action}`;
+          break;
+        case 'lifecycle':
+          line += `: ${event.data.from} → ${event.data.to} (${event.data.reason})`;
+          break;
         case 'error':
           line += `: ${event.data.error}`;
           break;
@@ -285,6 +423,7 @@ export class Tracer {
     if (trace) {
       trace.timeline.push(event);
     }
+    sessionStream.publish(sessionId, event.type, event.data, event.timestamp);
   }
 
   private updateSummary(sessionId: string, updater: (summary: TraceSummary) => void): void {
@@ -0,0 +1,71 @@
+/**
+ * Session Stream — Live events for clients watching a session
+ *
+ * Trace events (routing decisions, tool calls, escalations, ...) are
+ * published as they are recorded. The executor adds what the trace does
+ * not keep: tool calls starting and reply tokens as the LLM writes them.
+ * Nothing is buffered; a subscriber only sees events after it subscribed.
+ */
+
+import type { TraceEvent } from './index';
+
+export type StreamEventType = TraceEvent['type'] | 'tool_start' | 'token' | 'done';
+
+export interface StreamEvent {
+  type: StreamEventType;
+  sessionId: string;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+export type StreamListener = (event: StreamEvent) => void;
+
+/**
+ * Per-session publish/subscribe
+ */
+export class SessionStream {
+  private listeners: Map<string, Set<StreamListener>> = new Map();
+
+  /**
+   * Listen to a session's events; returns the unsubscribe function
+   */
+  subscribe(sessionId: string, listener: StreamListener): () => void {
+    const listeners = this.listeners.get(sessionId) ?? new Set<StreamListener>();
+    listeners.add(listener);
+    this.listeners.set(sessionId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(sessionId) === listeners) {
+        this.listeners.delete(sessionId);
+      }
+    };
+  }
+
+  /**
+   * Whether anyone is watching (lets callers skip streaming work)
+   */
+  hasSubscribers(sessionId: string): boolean {
+    return (this.listeners.get(sessionId)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Send an event to the session's subscribers
+   */
+  publish(sessionId: string, type: StreamEventType, data: Record<string, unknown>, timestamp: string = new Date().toISOString()): void {
+    const listeners = this.listeners.get(sessionId);
+    if (!listeners) return;
+
+    const event: StreamEvent = { type, sessionId, timestamp, data };
+    for (const listener of [...listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.log(`[Stream] Listener failed for ${sessionId}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const sessionStream = new SessionStream();
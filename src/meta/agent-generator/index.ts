@@ -6,6 +6,7 @@
 
 import { WorkflowConfig, WorkflowStep } from '../workflow-parser';
 import { IntentPattern, buildRoutingRules } from '../intent-extractor';
+import type { IntentCatalog } from '../intent-extractor/catalog';
 import { ToolDefinition, getToolByHandle } from '../tool-mapper/tools';
 
 export interface AgentConfig {
@@ -17,6 +18,11 @@ export interface AgentConfig {
   triggers: string[];
   boundaries: string[];
   escalationConditions: string[];
+  contextBudget?: number; // Max prompt tokens; defaults to MemoryConfig.tokenBudget
+  toolConcurrency?: number; // Tool calls from one LLM turn run at once (default 4)
+  model?: string; // LLM model for this agent (default: the provider's model)
+  temperature?: number; // Sampling temperature (default: the provider's)
+  maxTokens?: number; // Max reply tokens (default: the provider's)
 }
 
 export interface OrchestratorConfig {
@@ -25,6 +31,24 @@ export interface OrchestratorConfig {
   routing: RoutingRule[];
   fallbackAgent: string;
   escalationHandler: EscalationConfig;
+  supervisor?: SupervisorConfig; // type 'supervisor'
+  sequence?: SequenceStep[]; // type 'sequential'
+  classifier?: ClassifierConfig; // Default: keyword
+}
+
+export interface ClassifierConfig {
+  type: 'keyword' | 'statistical';
+  modelPath?: string; // Trained model JSON (default: INTENT_MODEL_PATH or .mas/intent-model.json)
+}
+
+export interface SupervisorConfig {
+  agentId: string; // Plans consultations and writes the final reply
+  maxConsultations: number;
+}
+
+export interface SequenceStep {
+  agentId: string;
+  instruction: string; // What this step must do, e.g. "Verify the order exists"
 }
 
 export interface RoutingRule {
@@ -40,6 +64,13 @@ export interface EscalationConfig {
   conditions: string[];
   customerMessage: string;
   summaryFields: string[];
+  // Escalation queue SLA per priority tier, in minutes (staffed minutes with brandContext.supportCalendar)
+  slaMinutes?: { urgent?: number; high?: number; normal?: number; low?: number };
+  // Sentiment trigger thresholds (defaults in mas/memory/sentiment); enabled unless false
+  sentiment?: { enabled?: boolean; minAverage?: number; maxFrustration?: number; minMessages?: number };
+  returnWindowDays?: number; // For "Outside return window" conditions (default 30)
+  // Templates by support status; {eta} and {holiday} are filled in (needs brandContext.supportCalendar)
+  customerMessages?: { open?: string; afterHours?: string; holiday?: string };
 }
 
 export interface MASConfig {
@@ -47,6 +78,7 @@ export interface MASConfig {
   version: string;
   brandContext: BrandContext;
   orchestrator: OrchestratorConfig;
+  intentCatalog?: IntentCatalog; // Catalog the MAS was built with (default: built-in)
   memory: MemoryConfig;
   tracing: TracingConfig;
 }
@@ -55,11 +87,28 @@ export interface BrandContext {
   name: string;
   tone: string;
   policies: string[];
+  email?: BrandEmailConfig;
+  supportCalendar?: SupportCalendar; // Human team hours (default: always staffed)
+}
+
+export interface SupportCalendar {
+  timezone: string; // IANA zone, e.g. America/Chicago
+  hours: Partial<Record<'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun', { open: string; close: string }>>; // HH:MM, local
+  holidays: { date: string; name: string }[]; // YYYY-MM-DD, local
+}
+
+export interface BrandEmailConfig {
+  fromName: string;
+  fromAddress: string;
+  signature: string;
+  footer?: string;
 }
 
 export interface MemoryConfig {
   type: 'session' | 'persistent';
   maxTurns: number;
+  tokenBudget?: number;
+  inactivityTimeoutMinutes?: number;
   persistentFields: string[];
 }
 
@@ -75,7 +124,8 @@ export interface TracingConfig {
  */
 export function generateMASConfig(
   workflow: WorkflowConfig,
-  patterns: IntentPattern[]
+  patterns: IntentPattern[],
+  intentCatalog?: IntentCatalog
 ): MASConfig {
   const agents = generateAgents(workflow);
   const routing = generateRouting(patterns, agents);
@@ -99,9 +149,12 @@ export function generateMASConfig(
         summaryFields: workflow.escalationRules.summary
       }
     },
+    intentCatalog,
     memory: {
       type: 'session',
       maxTurns: 50,
+      tokenBudget: 6000,
+      inactivityTimeoutMinutes: 72 * 60,
       persistentFields: ['customerEmail', 'customerId', 'orderHistory', 'subscriptionStatus']
     },
     tracing: {
@@ -187,7 +240,7 @@ COMMUNICATION STYLE:
 - If unsure, ask clarifying questions
 - Never guess or make up information
 
-When you need to escalate, use the escalation protocol and stop processing.`;
+When you need to escalate, call escalate_to_human with the reason and a short summary. It stops processing and tells the customer a specialist will follow up.`;
 }
 
 /**
@@ -221,25 +274,32 @@ function generateRouting(patterns: IntentPattern[], agents: AgentConfig[]): Rout
   const rules: RoutingRule[] = [];
 
   for (const pattern of patterns) {
-    // Find matching agent
-    const matchingAgent = agents.find(a =>
-      a.id.includes(pattern.suggestedWorkflow) ||
-      a.triggers.some(t => t.toLowerCase().includes(pattern.name))
-    );
-
-    rules.push({
-      intentId: pattern.id,
-      targetAgent: matchingAgent?.id || 'general-support-agent',
-      conditions: {
-        keywords: pattern.keywords,
-        minConfidence: 0.3
-      }
-    });
+    rules.push(generateRoutingRule(pattern, agents));
   }
 
   return rules;
 }
 
+/**
+ * Routing rule for one intent pattern (also used when the catalog is edited at runtime)
+ */
+export function generateRoutingRule(pattern: IntentPattern, agents: AgentConfig[]): RoutingRule {
+  // Find matching agent
+  const matchingAgent = agents.find(a =>
+    a.id.includes(pattern.suggestedWorkflow) ||
+    a.triggers.some(t => t.toLowerCase().includes(pattern.name))
+  );
+
+  return {
+    intentId: pattern.id,
+    targetAgent: matchingAgent?.id || 'general-support-agent',
+    conditions: {
+      keywords: pattern.keywords,
+      minConfidence: 0.3
+    }
+  };
+}
+
 /**
  * Serialize MAS config to file format
  */
@@ -253,7 +313,7 @@ export function serializeMASConfig(config: MASConfig): string {
 export function generateMASCode(config: MASConfig): string {
   return `/**
  * Auto-generated MAS for ${config.name}
- * Version: ${config.version}
+ * Version: ${config.version}${config.intentCatalog ? ` (intent catalog ${config.intentCatalog.brand}@${config.intentCatalog.version})` : ''}
  * Generated: ${new Date().toISOString()}
  */
 
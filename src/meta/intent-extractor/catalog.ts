@@ -0,0 +1,148 @@
+/**
+ * Intent Catalog — Per-brand intent definitions as data
+ *
+ * A catalog maps intent IDs (UPPER_SNAKE) to keywords, tiebreak priority and
+ * the workflow that handles them. Brands ship a JSON catalog next to their
+ * brand module. Catalogs are validated when loaded and when edited through
+ * the API, and every edit bumps the patch version recorded in the MASConfig.
+ */
+
+import { readFileSync } from 'fs';
+
+export interface IntentConfig {
+  keywords: string[];
+  suggestedWorkflow: string;
+  priority: number; // Tiebreak when keyword scores are equal (higher wins)
+}
+
+export interface IntentCatalog {
+  brand: string;
+  version: string;
+  intents: Record<string, IntentConfig>;
+}
+
+const INTENT_ID = /^[A-Z][A-Z0-9_]*$/;
+const VERSION = /^\d+\.\d+\.\d+$/;
+
+// Routing falls back to this intent, so every catalog needs it
+export const FALLBACK_INTENT = 'GENERAL_INQUIRY';
+
+/**
+ * Problems with one intent definition (empty when valid)
+ */
+export function validateIntentConfig(id: string, config: unknown): string[] {
+  const issues: string[] = [];
+  if (!INTENT_ID.test(id)) {
+    issues.push(`Intent ID ${id} must be UPPER_SNAKE_CASE`);
+  }
+  if (!config || typeof config !== 'object') {
+    return [...issues, `Intent ${id} must be an object`];
+  }
+
+  const { keywords, suggestedWorkflow, priority } = config as Record<string, unknown>;
+  if (!Array.isArray(keywords) || keywords.length === 0 ||
+      keywords.some(k => typeof k !== 'string' || k.trim() === '')) {
+    issues.push(`Intent ${id} needs a non-empty list of keywords`);
+  }
+  if (typeof suggestedWorkflow !== 'string' || suggestedWorkflow.trim() === '') {
+    issues.push(`Intent ${id} needs a suggestedWorkflow`);
+  }
+  if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+    issues.push(`Intent ${id} needs a numeric priority`);
+  }
+  return issues;
+}
+
+/**
+ * Problems with a whole catalog (empty when valid)
+ */
+export function validateIntentCatalog(data: unknown): string[] {
+  if (!data || typeof data !== 'object') return ['Catalog must be an object'];
+
+  const { brand, version, intents } = data as Record<string, unknown>;
+  const issues: string[] = [];
+  if (typeof brand !== 'string' || brand.trim() === '') {
+    issues.push('Catalog needs a brand');
+  }
+  if (typeof version !== 'string' || !VERSION.test(version)) {
+    issues.push('Catalog version must look like 1.0.0');
+  }
+  if (!intents || typeof intents !== 'object' || Array.isArray(intents)) {
+    return [...issues, 'Catalog needs an intents object'];
+  }
+
+  for (const [id, config] of Object.entries(intents)) {
+    issues.push(...validateIntentConfig(id, config));
+  }
+  if (!(FALLBACK_INTENT in intents)) {
+    issues.push(`Catalog must define ${FALLBACK_INTENT}`);
+  }
+  return issues;
+}
+
+/**
+ * Validate raw catalog data; throws listing every problem
+ */
+export function parseIntentCatalog(data: unknown, source: string): IntentCatalog {
+  const issues = validateIntentCatalog(data);
+  if (issues.length > 0) {
+    throw new Error(`Invalid intent catalog ${source}: ${issues.join('; ')}`);
+  }
+  return data as IntentCatalog;
+}
+
+/**
+ * Load and validate a catalog JSON file
+ */
+export function loadIntentCatalog(filePath: string): IntentCatalog {
+  return parseIntentCatalog(JSON.parse(readFileSync(filePath, 'utf-8')), filePath);
+}
+
+/**
+ * Add or replace an intent; bumps the catalog's patch version
+ */
+export function setCatalogIntent(catalog: IntentCatalog, id: string, config: IntentConfig): IntentCatalog {
+  const issues = validateIntentConfig(id, config);
+  if (issues.length > 0) {
+    throw new Error(issues.join('; '));
+  }
+
+  catalog.intents[id] = {
+    keywords: config.keywords.map(k => k.trim()),
+    suggestedWorkflow: config.suggestedWorkflow,
+    priority: config.priority
+  };
+  catalog.version = bumpPatchVersion(catalog.version);
+  return catalog;
+}
+
+/**
+ * Remove an intent; bumps the catalog's patch version
+ */
+export function removeCatalogIntent(catalog: IntentCatalog, id: string): IntentCatalog {
+  if (!(id in catalog.intents)) {
+    throw new Error(`Intent not found: ${id}`);
+  }
+  if (id === FALLBACK_INTENT) {
+    throw new Error(`Cannot remove ${FALLBACK_INTENT}`);
+  }
+
+  delete catalog.intents[id];
+  catalog.version = bumpPatchVersion(catalog.version);
+  return catalog;
+}
+
+/**
+ * Independent copy (edits to the copy never reach the source catalog)
+ */
+export function cloneIntentCatalog(catalog: IntentCatalog): IntentCatalog {
+  return JSON.parse(JSON.stringify(catalog)) as IntentCatalog;
+}
+
+/**
+ * 1.2.3 → 1.2.4
+ */
+export function bumpPatchVersion(version: string): string {
+  const [major, minor, patch] = version.split('.').map(Number);
+  return `${major}.${minor}.${patch + 1}`;
+}
@@ -0,0 +1,416 @@
+/**
+ * Statistical Intent Classifier — TF-IDF + multinomial naive Bayes
+ *
+ * Trained offline from labeled tickets, scenario inputs and catalog keywords,
+ * serialized to JSON and loaded by the Orchestrator. Word, bigram and
+ * character trigram features let misspellings ("recieved") and unseen
+ * phrasings share evidence with the training text. Confidences are
+ * temperature-scaled on cross-validated predictions.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { classifyMessage, DEFAULT_INTENT_CATALOG, IntentClassification, Ticket } from './index';
+import type { IntentCatalog } from './catalog';
+import type { ClassifierConfig } from '../agent-generator';
+
+export interface LabeledExample {
+  text: string;
+  intent: string;
+}
+
+export interface IntentClassifier {
+  readonly type: 'keyword' | 'statistical';
+  classify(message: string): IntentClassification;
+}
+
+export interface TrainingOptions {
+  smoothing?: number; // Laplace alpha
+  minDocumentFrequency?: number; // Drop rarer features
+  folds?: number; // Cross-validation folds used for calibration
+  fitPriors?: boolean; // Use class frequencies as priors (default: uniform)
+}
+
+export interface TrainingReport {
+  examples: number;
+  classes: Record<string, number>;
+  features: number;
+  temperature: number;
+  crossValidatedAccuracy: number;
+}
+
+export interface SerializedIntentModel {
+  version: 1;
+  type: 'tfidf-naive-bayes';
+  trainedAt: string;
+  classes: string[];
+  features: string[];
+  idf: number[];
+  logPriors: number[];
+  logLikelihoods: number[][]; // [class][feature]
+  temperature: number;
+  report: TrainingReport;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'it', 'is', 'am', 'are', 'was',
+  'be', 'to', 'of', 'in', 'on', 'for', 'and', 'or', 'so', 'this', 'that', 'with', 'at', 'hi',
+  'hello', 'thanks', 'thank', 'please', 'regards', 'sent', 'from', 'iphone'
+]);
+
+// Secondary intents need at least this calibrated probability
+const SECONDARY_MIN_PROBABILITY = 0.1;
+
+// Below this the classifier abstains and answers GENERAL_INQUIRY
+const DEFAULT_MIN_CONFIDENCE = 0.2;
+const ABSTAIN_INTENT = 'GENERAL_INQUIRY';
+
+// Temperatures tried during calibration
+const TEMPERATURE_GRID = Array.from({ length: 40 }, (_, i) => Math.pow(1.2, i - 10));
+
+/**
+ * Keyword classifier (the original substring matcher) behind the common interface
+ */
+export function createKeywordClassifier(catalog: IntentCatalog = DEFAULT_INTENT_CATALOG): IntentClassifier {
+  return {
+    type: 'keyword',
+    classify: message => classifyMessage(message, catalog)
+  };
+}
+
+export const keywordClassifier = createKeywordClassifier();
+
+/**
+ * TF-IDF weighted multinomial naive Bayes
+ */
+export class NaiveBayesIntentClassifier implements IntentClassifier {
+  readonly type = 'statistical' as const;
+  private model: SerializedIntentModel;
+  private featureIndex: Map<string, number>;
+  private minConfidence: number;
+
+  constructor(model: SerializedIntentModel, minConfidence: number = DEFAULT_MIN_CONFIDENCE) {
+    this.model = model;
+    this.featureIndex = new Map(model.features.map((f, i) => [f, i]));
+    this.minConfidence = minConfidence;
+  }
+
+  /**
+   * Train on labeled examples; calibration runs k-fold cross-validation first
+   */
+  static train(examples: LabeledExample[], options: TrainingOptions = {}): NaiveBayesIntentClassifier {
+    if (examples.length === 0) {
+      throw new Error('Cannot train intent classifier without examples');
+    }
+
+    const folds = Math.min(options.folds ?? 5, examples.length);
+    const heldOut: Array<{ logJoint: number[]; classes: string[]; intent: string }> = [];
+    if (folds >= 2) {
+      for (let fold = 0; fold < folds; fold++) {
+        const train = examples.filter((_, i) => i % folds !== fold);
+        const test = examples.filter((_, i) => i % folds === fold);
+        const model = fitModel(train, options);
+        const classifier = new NaiveBayesIntentClassifier(model);
+        for (const example of test) {
+          heldOut.push({ logJoint: classifier.logJoint(example.text), classes: model.classes, intent: example.intent });
+        }
+      }
+    }
+
+    const model = fitModel(examples, options);
+    model.temperature = heldOut.length > 0 ? fitTemperature(heldOut) : 1;
+
+    const correct = heldOut.filter(h => h.classes[argmax(h.logJoint)] === h.intent).length;
+    model.report = {
+      examples: examples.length,
+      classes: countBy(examples.map(e => e.intent)),
+      features: model.features.length,
+      temperature: model.temperature,
+      crossValidatedAccuracy: heldOut.length > 0 ? round(correct / heldOut.length) : 0
+    };
+
+    return new NaiveBayesIntentClassifier(model);
+  }
+
+  /**
+   * Load a model written by save()
+   */
+  static load(filePath: string): NaiveBayesIntentClassifier {
+    const model = JSON.parse(readFileSync(filePath, 'utf-8')) as SerializedIntentModel;
+    if (model.version !== 1 || model.type !== 'tfidf-naive-bayes') {
+      throw new Error(`Unsupported intent model in ${filePath}`);
+    }
+    return new NaiveBayesIntentClassifier(model);
+  }
+
+  save(filePath: string): void {
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(this.model));
+  }
+
+  toJSON(): SerializedIntentModel {
+    return this.model;
+  }
+
+  getReport(): TrainingReport {
+    return this.model.report;
+  }
+
+  getClasses(): string[] {
+    return [...this.model.classes];
+  }
+
+  /**
+   * Classify with calibrated class probabilities
+   */
+  classify(message: string): IntentClassification {
+    const probabilities = softmax(this.logJoint(message), this.model.temperature);
+    const ranked = this.model.classes
+      .map((intent, i) => ({ intent, probability: probabilities[i] }))
+      .sort((a, b) => b.probability - a.probability);
+
+    // Entities still come from the rule-based extractor
+    const entities = classifyMessage(message).extractedEntities;
+
+    // Too close to call: treat as a general inquiry rather than guess a specialist
+    if (ranked[0].probability < this.minConfidence && this.model.classes.includes(ABSTAIN_INTENT)) {
+      const general = ranked.find(r => r.intent === ABSTAIN_INTENT)!;
+      ranked.splice(ranked.indexOf(general), 1);
+      ranked.unshift(general);
+    }
+
+    return {
+      primary: ranked[0].intent,
+      secondary: ranked
+        .slice(1, 4)
+        .filter(r => r.probability >= SECONDARY_MIN_PROBABILITY)
+        .map(r => r.intent),
+      confidence: round(ranked[0].probability),
+      extractedEntities: entities,
+      probabilities: Object.fromEntries(ranked.map(r => [r.intent, round(r.probability)]))
+    };
+  }
+
+  private logJoint(text: string): number[] {
+    const vector = vectorize(text, this.featureIndex, this.model.idf);
+    return this.model.classes.map((_, c) => {
+      let score = this.model.logPriors[c];
+      for (const [feature, weight] of vector) {
+        score += weight * this.model.logLikelihoods[c][feature];
+      }
+      return score;
+    });
+  }
+}
+
+/**
+ * Pick the classifier for the Orchestrator. A missing or unreadable model
+ * falls back to keywords so the MAS still starts.
+ */
+export function createIntentClassifier(
+  config: ClassifierConfig = { type: 'keyword' },
+  catalog: IntentCatalog = DEFAULT_INTENT_CATALOG
+): IntentClassifier {
+  const keywordClassifier = createKeywordClassifier(catalog);
+  if (config.type !== 'statistical') return keywordClassifier;
+
+  const modelPath = config.modelPath || process.env.INTENT_MODEL_PATH || '.mas/intent-model.json';
+  if (!existsSync(modelPath)) {
+    console.warn(`[Intent] No model at ${modelPath} (run npm run train:intents), using keyword classifier`);
+    return keywordClassifier;
+  }
+
+  try {
+    const classifier = NaiveBayesIntentClassifier.load(modelPath);
+    warnOnClassMismatch(classifier.getClasses(), catalog, modelPath);
+    return classifier;
+  } catch (error) {
+    console.warn(`[Intent] Could not load ${modelPath}, using keyword classifier:`, error);
+    return keywordClassifier;
+  }
+}
+
+/**
+ * A model trained on another catalog predicts intents routing cannot use,
+ * and never predicts the ones it was not trained on
+ */
+function warnOnClassMismatch(classes: string[], catalog: IntentCatalog, modelPath: string): void {
+  const intents = Object.keys(catalog.intents);
+  const unknown = classes.filter(c => !intents.includes(c));
+  const untrained = intents.filter(i => !classes.includes(i));
+  if (unknown.length === 0 && untrained.length === 0) return;
+
+  console.warn(
+    `[Intent] Model ${modelPath} does not match intent catalog ${catalog.brand}@${catalog.version}` +
+    (unknown.length > 0 ? `; not in catalog: ${unknown.join(', ')}` : '') +
+    (untrained.length > 0 ? `; not in model: ${untrained.join(', ')}` : '') +
+    ' (run npm run train:intents)'
+  );
+}
+
+/**
+ * Labeled examples from tickets: subject plus the customer's own messages
+ */
+export function ticketExamples(tickets: Ticket[], labels: Record<string, string>): LabeledExample[] {
+  return tickets
+    .filter(t => labels[t.conversationId])
+    .map(t => ({ text: `${t.subject} ${customerText(t.conversation)}`, intent: labels[t.conversationId] }));
+}
+
+/**
+ * Customer messages of a ticket conversation (agent replies are templates, not signal)
+ */
+export function customerText(conversation: string): string {
+  const messages = Array.from(conversation.matchAll(/Customer's message: "([^"]*)"/g)).map(m => m[1]);
+  return messages.length > 0 ? messages.join(' ') : conversation;
+}
+
+/**
+ * Tokens: words, bigrams and character trigrams of longer words
+ */
+export function extractFeatures(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/[^a-z0-9#\s]+/g, ' ')
+    .split(/\s+/)
+    .map(w => (/\d/.test(w) ? '<num>' : w))
+    .filter(w => w && !STOPWORDS.has(w));
+
+  const features: string[] = [...words];
+  for (let i = 0; i < words.length - 1; i++) {
+    features.push(`${words[i]}_${words[i + 1]}`);
+  }
+  for (const word of words) {
+    if (word.length < 4 || word === '<num>') continue;
+    const padded = `^${word}$`;
+    for (let i = 0; i < padded.length - 2; i++) {
+      features.push(`c:${padded.slice(i, i + 3)}`);
+    }
+  }
+  return features;
+}
+
+function fitModel(examples: LabeledExample[], options: TrainingOptions): SerializedIntentModel {
+  const alpha = options.smoothing ?? 0.1;
+  const minDf = options.minDocumentFrequency ?? 1;
+  const documents = examples.map(e => extractFeatures(e.text));
+
+  // Vocabulary and inverse document frequency
+  const documentFrequency = new Map<string, number>();
+  for (const features of documents) {
+    for (const feature of new Set(features)) {
+      documentFrequency.set(feature, (documentFrequency.get(feature) || 0) + 1);
+    }
+  }
+  const features = Array.from(documentFrequency.entries())
+    .filter(([, df]) => df >= minDf)
+    .map(([feature]) => feature)
+    .sort();
+  const featureIndex = new Map(features.map((f, i) => [f, i]));
+  const idf = features.map(f => Math.log((documents.length + 1) / (documentFrequency.get(f)! + 1)) + 1);
+
+  // Per-class TF-IDF mass
+  const classes = Object.keys(countBy(examples.map(e => e.intent))).sort();
+  const classIndex = new Map(classes.map((c, i) => [c, i]));
+  const weights = classes.map(() => new Array<number>(features.length).fill(0));
+  const docCounts = classes.map(() => 0);
+
+  examples.forEach((example, i) => {
+    const c = classIndex.get(example.intent)!;
+    docCounts[c]++;
+    for (const [feature, weight] of vectorizeFeatures(documents[i], featureIndex, idf)) {
+      weights[c][feature] += weight;
+    }
+  });
+
+  const logLikelihoods = weights.map(row => {
+    const total = row.reduce((sum, w) => sum + w, 0) + alpha * features.length;
+    return row.map(w => round(Math.log((w + alpha) / total), 5));
+  });
+
+  return {
+    version: 1,
+    type: 'tfidf-naive-bayes',
+    trainedAt: new Date().toISOString(),
+    classes,
+    features,
+    idf: idf.map(v => round(v, 5)),
+    logPriors: docCounts.map(n => round(options.fitPriors ? Math.log(n / examples.length) : -Math.log(classes.length), 5)),
+    logLikelihoods,
+    temperature: 1,
+    report: { examples: 0, classes: {}, features: 0, temperature: 1, crossValidatedAccuracy: 0 }
+  };
+}
+
+function vectorize(text: string, featureIndex: Map<string, number>, idf: number[]): Map<number, number> {
+  return vectorizeFeatures(extractFeatures(text), featureIndex, idf);
+}
+
+/**
+ * Sublinear TF x IDF, L2-normalized so long emails do not dominate
+ */
+function vectorizeFeatures(features: string[], featureIndex: Map<string, number>, idf: number[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const feature of features) {
+    const index = featureIndex.get(feature);
+    if (index !== undefined) counts.set(index, (counts.get(index) || 0) + 1);
+  }
+
+  const vector = new Map<number, number>();
+  let norm = 0;
+  for (const [index, count] of counts) {
+    const weight = (1 + Math.log(count)) * idf[index];
+    vector.set(index, weight);
+    norm += weight * weight;
+  }
+  norm = Math.sqrt(norm) || 1;
+  for (const [index, weight] of vector) {
+    vector.set(index, weight / norm);
+  }
+  return vector;
+}
+
+/**
+ * Temperature minimizing negative log-likelihood on held-out predictions
+ */
+function fitTemperature(heldOut: Array<{ logJoint: number[]; classes: string[]; intent: string }>): number {
+  let best = 1;
+  let bestLoss = Infinity;
+  for (const temperature of TEMPERATURE_GRID) {
+    let loss = 0;
+    for (const h of heldOut) {
+      const index = h.classes.indexOf(h.intent);
+      const probability = index >= 0 ? softmax(h.logJoint, temperature)[index] : 0;
+      loss -= Math.log(Math.max(probability, 1e-9));
+    }
+    if (loss < bestLoss) {
+      bestLoss = loss;
+      best = temperature;
+    }
+  }
+  return round(best, 4);
+}
+
+function softmax(logits: number[], temperature: number): number[] {
+  const scaled = logits.map(l => l / temperature);
+  const max = Math.max(...scaled);
+  const exps = scaled.map(s => Math.exp(s - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / sum);
+}
+
+function argmax(values: number[]): number {
+  return values.reduce((best, v, i) => (v > values[best] ? i : best), 0);
+}
+
+function countBy(values: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const value of values) counts[value] = (counts[value] || 0) + 1;
+  return counts;
+}
+
+function round(value: number, digits: number = 3): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
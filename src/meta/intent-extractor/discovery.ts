@@ -0,0 +1,269 @@
+/**
+ * Intent Discovery — Propose new intents by clustering ticket text
+ *
+ * extractIntentPatterns only knows the catalog categories. This pass clusters
+ * tickets (TF-IDF over words and bigrams, spherical k-means) and reports the
+ * clusters the catalog keywords do not cover as candidate intents. Accepted
+ * candidates join the brand's catalog, so extractIntentPatterns and
+ * generateMASConfig pick them up like any other intent.
+ */
+
+import { classifyMessage, DEFAULT_INTENT_CATALOG, IntentPattern, Ticket } from './index';
+import { customerText, extractFeatures } from './classifier';
+import { IntentCatalog, setCatalogIntent } from './catalog';
+
+export interface CandidateIntent {
+  id: string; // Proposed catalog ID, e.g. WRONG_VERSION
+  name: string;
+  keywords: string[];
+  examples: string[];
+  ticketIds: string[];
+  count: number;
+  share: number; // Of all tickets
+  nearestIntent: string; // Most common catalog intent among covered tickets
+  novelty: number; // Share of the cluster the catalog keywords miss
+}
+
+export interface DiscoveryOptions {
+  catalog?: IntentCatalog; // Catalog whose coverage is measured (default: built-in)
+  clusters?: number; // Default: ceil(sqrt(tickets))
+  minClusterSize?: number;
+  minNovelty?: number; // Clusters the catalog mostly covers are not proposed
+  maxDocumentFrequency?: number; // Drop features in more tickets than this share (template text)
+  maxIterations?: number;
+  keywordCount?: number;
+  exampleCount?: number;
+}
+
+export interface AcceptOptions {
+  id?: string;
+  name?: string;
+  keywords?: string[];
+  suggestedWorkflow?: string;
+  priority?: number;
+}
+
+type SparseVector = Map<number, number>;
+
+// Function words and email boilerplate; clusters built on them are not intents
+const DISCOVERY_STOPWORDS = new Set([
+  'just', 'if', 'would', 'could', 'can', 'will', 'do', 'does', 'did', 'have', 'has', 'had', 'been', 'not',
+  'no', 'but', 'as', 'by', 'all', 'any', 'some', 'these', 'those', 'they', 'them', 'their', 'he', 'she',
+  'him', 'her', 'his', 'us', 'its', 'im', 'ive', 'id', 'what', 'when', 'there', 'here', 'get', 'got',
+  'like', 'also', 'still', 'yet', 'one', 'out', 'up', 'about', 'dear', 'hey', 'kind', 'best', 'many',
+  're', 'fwd', 'subject', 'mail', 'yahoo', 'ipad', 'android', 'messengerattachments', 'customer', 'message'
+]);
+
+/**
+ * Cluster tickets and return the uncovered clusters as candidate intents, largest first
+ */
+export function discoverIntents(tickets: Ticket[], options: DiscoveryOptions = {}): CandidateIntent[] {
+  const minClusterSize = options.minClusterSize ?? 3;
+  const minNovelty = options.minNovelty ?? 0.5;
+  const keywordCount = options.keywordCount ?? 6;
+  const exampleCount = options.exampleCount ?? 5;
+
+  // Emails, links and attachment paths say nothing about the request
+  const texts = tickets.map(t => `${t.subject} ${customerText(t.conversation)}`.replace(/\S+@\S+|\S*\/\S*/g, ' '));
+  const documents = texts.map(text => extractFeatures(text).filter(isTopicFeature));
+  const { vectors, features } = tfidf(documents, options.maxDocumentFrequency ?? 0.2);
+  const usable = tickets.map((_, i) => i).filter(i => vectors[i].size > 0);
+  if (usable.length < minClusterSize) return [];
+
+  const k = Math.min(options.clusters ?? Math.ceil(Math.sqrt(usable.length)), usable.length);
+  const assignments = kMeans(usable.map(i => vectors[i]), features.length, k, options.maxIterations ?? 25);
+  const corpusMean = centroid(usable.map(i => vectors[i]), features.length);
+
+  const candidates: CandidateIntent[] = [];
+  for (let cluster = 0; cluster < k; cluster++) {
+    const members = usable.filter((_, j) => assignments[j] === cluster);
+    if (members.length < minClusterSize) continue;
+
+    // Coverage by the existing catalog
+    const intents = members.map(i => classifyMessage(texts[i], options.catalog ?? DEFAULT_INTENT_CATALOG));
+    const covered = intents.filter(c => c.confidence > 0 && c.primary !== 'GENERAL_INQUIRY');
+    const novelty = 1 - covered.length / members.length;
+    if (novelty < minNovelty) continue;
+
+    // Keywords: features this cluster uses more than the corpus does
+    const mean = centroid(members.map(i => vectors[i]), features.length);
+    const keywords = mean
+      .map((weight, f) => ({ feature: features[f], lift: weight - corpusMean[f] }))
+      .filter(k => k.lift > 0)
+      .sort((a, b) => b.lift - a.lift)
+      .slice(0, keywordCount)
+      .map(k => k.feature.replace(/_/g, ' '));
+    if (keywords.length === 0) continue;
+
+    // Examples: the tickets closest to the cluster centre
+    const examples = members
+      .map(i => ({ i, similarity: dot(vectors[i], mean) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, exampleCount)
+      .map(({ i }) => firstCustomerMessage(tickets[i]));
+
+    const id = keywords[0].toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+    candidates.push({
+      id,
+      name: keywords[0],
+      keywords,
+      examples,
+      ticketIds: members.map(i => tickets[i].conversationId),
+      count: members.length,
+      share: round(members.length / tickets.length),
+      nearestIntent: mostCommon(covered.map(c => c.primary)) || 'GENERAL_INQUIRY',
+      novelty: round(novelty)
+    });
+  }
+
+  return candidates.sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Add a candidate to a brand's intent catalog and return its pattern for generateMASConfig
+ */
+export function acceptCandidateIntent(candidate: CandidateIntent, catalog: IntentCatalog, options: AcceptOptions = {}): IntentPattern {
+  const id = options.id || candidate.id;
+  const keywords = options.keywords || candidate.keywords;
+  const suggestedWorkflow = options.suggestedWorkflow || 'general-support';
+
+  setCatalogIntent(catalog, id, { keywords, suggestedWorkflow, priority: options.priority ?? 5 });
+
+  return {
+    id: id.toLowerCase().replace(/_/g, '-'),
+    name: options.name || id.replace(/_/g, ' ').toLowerCase(),
+    examples: candidate.examples,
+    keywords,
+    confidence: candidate.share,
+    suggestedWorkflow
+  };
+}
+
+/**
+ * Words and bigrams that can name a topic (no character n-grams, numbers or stopwords)
+ */
+function isTopicFeature(feature: string): boolean {
+  if (feature.startsWith('c:') || feature.includes('<num>')) return false;
+  return feature.split('_').every(word => !DISCOVERY_STOPWORDS.has(word));
+}
+
+/**
+ * Sublinear TF-IDF vectors, L2-normalized
+ */
+function tfidf(documents: string[][], maxDocumentFrequency: number): { vectors: SparseVector[]; features: string[] } {
+  const documentFrequency = new Map<string, number>();
+  for (const features of documents) {
+    for (const feature of new Set(features)) {
+      documentFrequency.set(feature, (documentFrequency.get(feature) || 0) + 1);
+    }
+  }
+
+  // Features seen in a single ticket cannot define a group; very common ones
+  // are notification subjects and signatures
+  const maxDf = Math.max(2, maxDocumentFrequency * documents.length);
+  const features = Array.from(documentFrequency.entries())
+    .filter(([, df]) => df >= 2 && df <= maxDf)
+    .map(([f]) => f)
+    .sort();
+  const featureIndex = new Map(features.map((f, i) => [f, i]));
+
+  const vectors = documents.map(document => {
+    const counts = new Map<number, number>();
+    for (const feature of document) {
+      const index = featureIndex.get(feature);
+      if (index !== undefined) counts.set(index, (counts.get(index) || 0) + 1);
+    }
+
+    const vector: SparseVector = new Map();
+    for (const [index, count] of counts) {
+      const idf = Math.log((documents.length + 1) / (documentFrequency.get(features[index])! + 1)) + 1;
+      vector.set(index, (1 + Math.log(count)) * idf);
+    }
+    return normalize(vector);
+  });
+
+  return { vectors, features };
+}
+
+/**
+ * Spherical k-means with deterministic farthest-first seeding
+ */
+function kMeans(vectors: SparseVector[], dimensions: number, k: number, maxIterations: number): number[] {
+  // Seed with the most central document, then repeatedly the one least similar to any seed
+  const mean = centroid(vectors, dimensions);
+  const seeds = [argmax(vectors.map(v => dot(v, mean)))];
+  while (seeds.length < k) {
+    const closest = vectors.map(v => Math.max(...seeds.map(s => cosine(v, vectors[s]))));
+    seeds.push(argmax(closest.map((c, i) => (seeds.includes(i) ? -Infinity : -c))));
+  }
+
+  let centroids = seeds.map(s => toDense(vectors[s], dimensions));
+  let assignments = new Array<number>(vectors.length).fill(-1);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = vectors.map(v => argmax(centroids.map(c => dot(v, c))));
+    if (next.every((a, i) => a === assignments[i])) break;
+    assignments = next;
+
+    centroids = centroids.map((previous, cluster) => {
+      const members = vectors.filter((_, i) => assignments[i] === cluster);
+      if (members.length === 0) return previous;
+      const sum = centroid(members, dimensions);
+      const norm = Math.sqrt(sum.reduce((s, w) => s + w * w, 0)) || 1;
+      return sum.map(w => w / norm);
+    });
+  }
+
+  return assignments;
+}
+
+function centroid(vectors: SparseVector[], dimensions: number): number[] {
+  const sum = new Array<number>(dimensions).fill(0);
+  for (const vector of vectors) {
+    for (const [index, weight] of vector) sum[index] += weight / vectors.length;
+  }
+  return sum;
+}
+
+function toDense(vector: SparseVector, dimensions: number): number[] {
+  const dense = new Array<number>(dimensions).fill(0);
+  for (const [index, weight] of vector) dense[index] = weight;
+  return dense;
+}
+
+function normalize(vector: SparseVector): SparseVector {
+  const norm = Math.sqrt(Array.from(vector.values()).reduce((s, w) => s + w * w, 0)) || 1;
+  for (const [index, weight] of vector) vector.set(index, weight / norm);
+  return vector;
+}
+
+function dot(vector: SparseVector, dense: number[]): number {
+  let sum = 0;
+  for (const [index, weight] of vector) sum += weight * dense[index];
+  return sum;
+}
+
+function cosine(a: SparseVector, b: SparseVector): number {
+  let sum = 0;
+  for (const [index, weight] of a) sum += weight * (b.get(index) || 0);
+  return sum;
+}
+
+function argmax(values: number[]): number {
+  return values.reduce((best, v, i) => (v > values[best] ? i : best), 0);
+}
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function firstCustomerMessage(ticket: Ticket): string {
+  const text = customerText(ticket.conversation).trim() || ticket.subject;
+  return text.slice(0, 100);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -5,6 +5,8 @@
  * Output: Intent patterns for agent routing
  */
 
+import { IntentCatalog } from './catalog';
+
 export interface Ticket {
   conversationId: string;
   customerId: string;
@@ -28,97 +30,101 @@ export interface IntentClassification {
   secondary: string[];
   confidence: number;
   extractedEntities: Record<string, string>;
+  probabilities?: Record<string, number>; // Statistical classifier only
 }
 
-interface IntentConfig {
-  keywords: string[];
-  suggestedWorkflow: string;
-  priority: number;
+export interface IntentSegment {
+  text: string;
+  intent: IntentClassification;
 }
 
 /**
- * Known intent categories for e-commerce support
+ * Default intent catalog for e-commerce support (brands ship their own as JSON)
  * Priority determines tiebreaker: higher priority wins when scores are equal
  */
-const INTENT_CATEGORIES: Record<string, IntentConfig> = {
-  // Escalation (highest priority - always detect human request)
-  ESCALATION_REQUEST: {
-    keywords: ['speak to human', 'talk to human', 'real person', 'speak to manager', 'talk to manager', 'human agent', 'live agent', 'customer service representative', 'speak to supervisor', 'talk to supervisor', 'transfer to supervisor', 'transfer me to', 'transfer to agent'],
-    suggestedWorkflow: 'escalation',
-    priority: 15
-  },
-  // Subscription intents (most specific - check first)
-  SUBSCRIPTION_CANCEL: {
-    keywords: ['cancel subscription', 'stop subscription', 'unsubscribe', 'cancel my subscription', 'end subscription', 'terminate subscription'],
-    suggestedWorkflow: 'subscription-cancellation',
-    priority: 10
-  },
-  SUBSCRIPTION_PAUSE: {
-    keywords: ['pause subscription', 'pause my subscription', 'skip next', 'skip order', 'skip subscription', 'delay subscription', 'hold subscription', 'skip my next'],
-    suggestedWorkflow: 'subscription-pause',
-    priority: 10
-  },
-  SUBSCRIPTION_INQUIRY: {
-    keywords: ['subscription status', 'billing date', 'next subscription', 'when is my subscription'],
-    suggestedWorkflow: 'subscription-management',
-    priority: 5
-  },
-  // Refund/Return (action-oriented)
-  REFUND_REQUEST: {
-    keywords: ['refund', 'money back', 'get refund', 'want refund', 'need refund', 'full refund'],
-    suggestedWorkflow: 'refund-processing',
-    priority: 8
-  },
-  RETURN_REQUEST: {
-    keywords: ['return', 'send back', 'exchange', 'wrong item', 'defective', 'return order'],
-    suggestedWorkflow: 'return-processing',
-    priority: 7
-  },
-  // Cancel order (not subscription)
-  CANCEL_ORDER: {
-    keywords: ['cancel order', 'cancel my order', 'dont want order', 'cancel the order'],
-    suggestedWorkflow: 'order-cancellation',
-    priority: 6
-  },
-  // Order status
-  ORDER_STATUS: {
-    keywords: ['where is my order', 'order status', 'status of order', 'tracking', 'shipped', 'delivery status', 'when arrive', 'what is the status', 'order tracking', 'track my order'],
-    suggestedWorkflow: 'order-tracking',
-    priority: 3
-  },
-  // Address
-  SHIPPING_ADDRESS: {
-    keywords: ['change address', 'update address', 'wrong address', 'shipping address', 'new address'],
-    suggestedWorkflow: 'address-update',
-    priority: 4
-  },
-  // Product
-  PRODUCT_INQUIRY: {
-    keywords: ['product', 'how to use', 'ingredient', 'recommend', 'which patch'],
-    suggestedWorkflow: 'product-information',
-    priority: 2
-  },
-  // Other
-  DISCOUNT_REQUEST: {
-    keywords: ['discount', 'coupon', 'code', 'promo', 'deal'],
-    suggestedWorkflow: 'discount-handling',
-    priority: 2
-  },
-  GENERAL_INQUIRY: {
-    keywords: ['question', 'help', 'information', 'tell me'],
-    suggestedWorkflow: 'general-support',
-    priority: 1
+export const DEFAULT_INTENT_CATALOG: IntentCatalog = {
+  brand: 'default',
+  version: '1.0.0',
+  intents: {
+    // Escalation (highest priority - always detect human request)
+    ESCALATION_REQUEST: {
+      keywords: ['speak to human', 'talk to human', 'real person', 'speak to manager', 'talk to manager', 'human agent', 'live agent', 'customer service representative', 'speak to supervisor', 'talk to supervisor', 'transfer to supervisor', 'transfer me to', 'transfer to agent'],
+      suggestedWorkflow: 'escalation',
+      priority: 15
+    },
+    // Subscription intents (most specific - check first)
+    SUBSCRIPTION_CANCEL: {
+      keywords: ['cancel subscription', 'stop subscription', 'unsubscribe', 'cancel my subscription', 'end subscription', 'terminate subscription'],
+      suggestedWorkflow: 'subscription-cancellation',
+      priority: 10
+    },
+    SUBSCRIPTION_PAUSE: {
+      keywords: ['pause subscription', 'pause my subscription', 'skip next', 'skip order', 'skip subscription', 'delay subscription', 'hold subscription', 'skip my next'],
+      suggestedWorkflow: 'subscription-pause',
+      priority: 10
+    },
+    SUBSCRIPTION_INQUIRY: {
+      keywords: ['subscription status', 'billing date', 'next subscription', 'when is my subscription'],
+      suggestedWorkflow: 'subscription-management',
+      priority: 5
+    },
+    // Refund/Return (action-oriented)
+    REFUND_REQUEST: {
+      keywords: ['refund', 'money back', 'get refund', 'want refund', 'need refund', 'full refund'],
+      suggestedWorkflow: 'refund-processing',
+      priority: 8
+    },
+    RETURN_REQUEST: {
+      keywords: ['return', 'send back', 'exchange', 'wrong item', 'defective', 'return order'],
+      suggestedWorkflow: 'return-processing',
+      priority: 7
+    },
+    // Cancel order (not subscription)
+    CANCEL_ORDER: {
+      keywords: ['cancel order', 'cancel my order', 'dont want order', 'cancel the order'],
+      suggestedWorkflow: 'order-cancellation',
+      priority: 6
+    },
+    // Order status
+    ORDER_STATUS: {
+      keywords: ['where is my order', 'order status', 'status of order', 'tracking', 'shipped', 'delivery status', 'when arrive', 'what is the status', 'order tracking', 'track my order'],
+      suggestedWorkflow: 'order-tracking',
+      priority: 3
+    },
+    // Address
+    SHIPPING_ADDRESS: {
+      keywords: ['change address', 'update address', 'wrong address', 'shipping address', 'new address'],
+      suggestedWorkflow: 'address-update',
+      priority: 4
+    },
+    // Product
+    PRODUCT_INQUIRY: {
+      keywords: ['product', 'how to use', 'ingredient', 'recommend', 'which patch'],
+      suggestedWorkflow: 'product-information',
+      priority: 2
+    },
+    // Other
+    DISCOUNT_REQUEST: {
+      keywords: ['discount', 'coupon', 'code', 'promo', 'deal'],
+      suggestedWorkflow: 'discount-handling',
+      priority: 2
+    },
+    GENERAL_INQUIRY: {
+      keywords: ['question', 'help', 'information', 'tell me'],
+      suggestedWorkflow: 'general-support',
+      priority: 1
+    }
   }
 };
 
 /**
  * Extract intent patterns from tickets
  */
-export function extractIntentPatterns(tickets: Ticket[]): IntentPattern[] {
+export function extractIntentPatterns(tickets: Ticket[], catalog: IntentCatalog = DEFAULT_INTENT_CATALOG): IntentPattern[] {
   const patternCounts = new Map<string, { examples: string[]; count: number }>();
 
   for (const ticket of tickets) {
-    const classification = classifyTicket(ticket);
+    const classification = classifyTicket(ticket, catalog);
     const key = classification.primary;
 
     if (!patternCounts.has(key)) {
@@ -137,7 +143,7 @@ export function extractIntentPatterns(tickets: Ticket[]): IntentPattern[] {
   const totalTickets = tickets.length;
 
   for (const [intentId, data] of patternCounts) {
-    const category = INTENT_CATEGORIES[intentId];
+    const category = catalog.intents[intentId];
     patterns.push({
       id: intentId.toLowerCase().replace(/_/g, '-'),
       name: intentId.replace(/_/g, ' ').toLowerCase(),
@@ -151,28 +157,72 @@ export function extractIntentPatterns(tickets: Ticket[]): IntentPattern[] {
   return patterns.sort((a, b) => b.confidence - a.confidence);
 }
 
+/**
+ * Catalog keywords as labeled seed examples for the statistical classifier
+ */
+export function intentKeywordExamples(catalog: IntentCatalog = DEFAULT_INTENT_CATALOG): Array<{ text: string; intent: string }> {
+  return Object.entries(catalog.intents).flatMap(([intent, config]) =>
+    config.keywords.map(keyword => ({ text: keyword, intent }))
+  );
+}
+
 /**
  * Classify a single ticket
  */
-export function classifyTicket(ticket: Ticket): IntentClassification {
+export function classifyTicket(ticket: Ticket, catalog: IntentCatalog = DEFAULT_INTENT_CATALOG): IntentClassification {
   const text = `${ticket.subject} ${ticket.conversation}`.toLowerCase();
-  return classifyText(text);
+  return classifyText(text, catalog);
 }
 
 /**
  * Classify message for routing (runtime use)
  */
-export function classifyMessage(message: string): IntentClassification {
-  return classifyText(message.toLowerCase());
+export function classifyMessage(message: string, catalog: IntentCatalog = DEFAULT_INTENT_CATALOG): IntentClassification {
+  return classifyText(message.toLowerCase(), catalog);
+}
+
+// Sentence ends and joining words that separate requests in one message
+const CLAUSE_SEPARATOR = /[.;!?]+\s+|\s*\n+\s*|,?\s+(?:and also|and then|and|also|plus|as well as)\s+/i;
+
+/**
+ * Split a compound request ("cancel my subscription and where is my order #NP3001002?")
+ * into one segment per distinct intent. Clauses without a specific intent stay
+ * with their neighbour. Plain messages come back as a single segment.
+ */
+export function splitIntents(message: string, catalog: IntentCatalog = DEFAULT_INTENT_CATALOG): IntentSegment[] {
+  const clauses = message.split(CLAUSE_SEPARATOR).map(c => c.trim()).filter(Boolean);
+  const segments: Array<{ clauses: string[]; intent?: string }> = [];
+
+  for (const clause of clauses) {
+    const intent = classifyMessage(clause, catalog);
+    const specific = intent.confidence > 0 && intent.primary !== 'GENERAL_INQUIRY';
+    const last = segments[segments.length - 1];
+
+    if (last && (!specific || !last.intent || last.intent === intent.primary)) {
+      last.clauses.push(clause);
+      last.intent = last.intent || (specific ? intent.primary : undefined);
+    } else {
+      segments.push({ clauses: [clause], intent: specific ? intent.primary : undefined });
+    }
+  }
+
+  if (segments.length < 2) {
+    return [{ text: message, intent: classifyMessage(message, catalog) }];
+  }
+
+  return segments.map(segment => {
+    const text = segment.clauses.join('; ');
+    return { text, intent: classifyMessage(text, catalog) };
+  });
 }
 
 /**
  * Internal classification with priority-based scoring
  */
-function classifyText(text: string): IntentClassification {
+function classifyText(text: string, catalog: IntentCatalog): IntentClassification {
   const scores: Array<{ category: string; score: number; priority: number }> = [];
 
-  for (const [category, config] of Object.entries(INTENT_CATEGORIES)) {
+  for (const [category, config] of Object.entries(catalog.intents)) {
     let score = 0;
     for (const keyword of config.keywords) {
       if (text.includes(keyword.toLowerCase())) {
@@ -195,7 +245,7 @@ function classifyText(text: string): IntentClassification {
     .filter(s => s.score > 0)
     .map(s => s.category);
 
-  const config = INTENT_CATEGORIES[primary];
+  const config = catalog.intents[primary];
   const maxScore = config.keywords.reduce((sum, k) => sum + k.split(' ').length, 0);
 
   return {
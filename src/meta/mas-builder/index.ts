@@ -6,8 +6,9 @@
  */
 
 import { parseWorkflowManual, RawWorkflowEntry, WorkflowConfig } from '../workflow-parser';
-import { extractIntentPatterns, Ticket, IntentPattern } from '../intent-extractor';
-import { generateMASConfig, MASConfig, generateMASCode, serializeMASConfig } from '../agent-generator';
+import { extractIntentPatterns, Ticket, IntentPattern, DEFAULT_INTENT_CATALOG } from '../intent-extractor';
+import { IntentCatalog, cloneIntentCatalog, validateIntentCatalog } from '../intent-extractor/catalog';
+import { generateMASConfig, MASConfig, BrandContext, generateMASCode, serializeMASConfig } from '../agent-generator';
 import { ALL_TOOLS, ToolDefinition } from '../tool-mapper/tools';
 
 export interface MASBuildInput {
@@ -15,6 +16,8 @@ export interface MASBuildInput {
   workflowEntries: RawWorkflowEntry[];
   historicalTickets: Ticket[];
   toolSubset?: string[]; // If not all tools needed
+  brandContext?: Partial<BrandContext>; // Brand-specific overrides (email, tone)
+  intentCatalog?: IntentCatalog; // Brand intent catalog (default: built-in)
 }
 
 export interface MASBuildOutput {
@@ -28,6 +31,7 @@ export interface BuildSummary {
   agentCount: number;
   toolCount: number;
   intentPatterns: number;
+  intentCatalogVersion: string;
   workflows: string[];
   escalationTriggers: string[];
   generatedAt: string;
@@ -41,13 +45,19 @@ export function buildMAS(input: MASBuildInput): MASBuildOutput {
   const workflowConfig = parseWorkflowManual(input.workflowEntries);
   workflowConfig.brandName = input.brandName;
 
-  // Step 2: Extract intent patterns from tickets
-  const patterns = extractIntentPatterns(input.historicalTickets);
+  // Step 2: Extract intent patterns from tickets (the config keeps its own copy of the catalog)
+  const intentCatalog = cloneIntentCatalog(input.intentCatalog || DEFAULT_INTENT_CATALOG);
+  const patterns = extractIntentPatterns(input.historicalTickets, intentCatalog);
 
   // Step 3: Generate MAS config
-  const masConfig = generateMASConfig(workflowConfig, patterns);
+  const masConfig = generateMASConfig(workflowConfig, patterns, intentCatalog);
 
-  // Step 4: Filter tools if subset specified
+  // Step 4: Apply brand overrides
+  if (input.brandContext) {
+    masConfig.brandContext = { ...masConfig.brandContext, ...input.brandContext };
+  }
+
+  // Step 5: Filter tools if subset specified
   if (input.toolSubset) {
     for (const agent of masConfig.orchestrator.agents) {
       agent.tools = agent.tools.filter(t => input.toolSubset!.includes(t));
@@ -62,6 +72,7 @@ export function buildMAS(input: MASBuildInput): MASBuildOutput {
     agentCount: masConfig.orchestrator.agents.length,
     toolCount: new Set(masConfig.orchestrator.agents.flatMap(a => a.tools)).size,
     intentPatterns: patterns.length,
+    intentCatalogVersion: `${intentCatalog.brand}@${intentCatalog.version}`,
     workflows: workflowConfig.workflows.map(w => w.name),
     escalationTriggers: masConfig.orchestrator.escalationHandler.conditions,
     generatedAt: new Date().toISOString()
@@ -196,6 +207,31 @@ export function validateMASConfig(config: MASConfig): { valid: boolean; issues:
     issues.push('No routing rules defined');
   }
 
+  // Check orchestrator mode
+  const agentIds = new Set(config.orchestrator.agents.map(a => a.id));
+  if (config.orchestrator.type === 'supervisor') {
+    const supervisor = config.orchestrator.supervisor;
+    if (supervisor && !agentIds.has(supervisor.agentId)) {
+      issues.push(`Unknown supervisor agent: ${supervisor.agentId}`);
+    }
+  }
+  if (config.orchestrator.type === 'sequential') {
+    const sequence = config.orchestrator.sequence || [];
+    if (sequence.length === 0) {
+      issues.push('Sequential orchestrator has no sequence steps');
+    }
+    for (const step of sequence) {
+      if (!agentIds.has(step.agentId)) {
+        issues.push(`Unknown agent in sequence: ${step.agentId}`);
+      }
+    }
+  }
+
+  // Check intent catalog
+  if (config.intentCatalog) {
+    issues.push(...validateIntentCatalog(config.intentCatalog));
+  }
+
   // Check escalation
   if (config.orchestrator.escalationHandler.conditions.length === 0) {
     issues.push('No escalation conditions defined');
@@ -0,0 +1,171 @@
+/**
+ * Email Tests — Inbound parsing, thread resolution and outbound rendering
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseEmail, extractReplyText, parseAddress } from '../src/mas/email';
+import { replySubject } from '../src/mas/email/outbound';
+import { buildDefaultMAS } from '../src/meta/mas-builder';
+import { MASRuntime } from '../src/mas/runtime';
+import { memoryStore } from '../src/mas/memory';
+import type { LLMClient } from '../src/mas/agents/executor';
+
+function createTestLLMClient(): LLMClient {
+  return {
+    async chat() {
+      return { content: 'Thanks for reaching out! Let me check that for you.' };
+    }
+  };
+}
+
+const RAW_REPLY = [
+  'From: "Mrs Parker Wilson" <User_8b7c460f7e@example.com>',
+  'To: support@natpat.com',
+  'Subject: =?utf-8?Q?RE:_Your_order_is_ready_to_ship!?=',
+  'Message-ID: <reply-2@example.com>',
+  'In-Reply-To: <2a6b53ac5ee8@example.com>',
+  'References: <2a6b53ac5ee8@example.com>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/alternative; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Hi, I have only received part of order NP9363178. Caf=C3=A9 patches are =',
+  'missing.',
+  '',
+  'Sent from my Galaxy',
+  '-------- Original message --------',
+  'Hi there, Thanks for reaching out to NATPAT Support',
+  '--b1',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>Hi, I have only received part of order NP9363178.</p>',
+  '--b1--',
+  ''
+].join('\r\n');
+
+describe('Inbound Email Parsing', () => {
+  it('should parse headers, thread keys and text body', () => {
+    const email = parseEmail(RAW_REPLY);
+
+    expect(email.from).toEqual({ name: 'Mrs Parker Wilson', email: 'user_8b7c460f7e@example.com' });
+    expect(email.subject).toBe('RE: Your order is ready to ship!');
+    expect(email.messageId).toBe('<reply-2@example.com>');
+    expect(email.references).toEqual(['<2a6b53ac5ee8@example.com>']);
+    expect(email.text).toContain('Café patches are missing.');
+    expect(email.html).toContain('<p>');
+  });
+
+  it('should strip quoted history and signatures', () => {
+    const reply = extractReplyText(parseEmail(RAW_REPLY).text);
+
+    expect(reply).toBe('Hi, I have only received part of order NP9363178. Café patches are missing.');
+  });
+
+  it('should strip inline quoted blocks from ticket transcripts', () => {
+    const reply = extractReplyText('That is helpful, thank you. Sent from my Galaxy -------- Original message -------- Sent from my Galaxy');
+
+    expect(reply).toBe('That is helpful, thank you.');
+  });
+
+  it('should parse bare addresses', () => {
+    expect(parseAddress('jane@example.com')).toEqual({ name: '', email: 'jane@example.com' });
+  });
+});
+
+describe('Inbound Email Runtime', () => {
+  let runtime: MASRuntime;
+
+  beforeEach(() => {
+    memoryStore.clear();
+    const { config } = buildDefaultMAS('test-brand');
+    runtime = new MASRuntime(config, createTestLLMClient());
+  });
+
+  it('should continue the session for a reply on a known thread', async () => {
+    const sessionId = runtime.startSession({
+      customerEmail: 'user_8b7c460f7e@example.com',
+      firstName: 'Parker',
+      lastName: 'Wilson',
+      shopifyCustomerId: 'cust_8b7c460f',
+      threadId: '<2a6b53ac5ee8@example.com>'
+    });
+
+    const response = await runtime.handleInboundEmail(RAW_REPLY);
+
+    expect(response.resumed).toBe(true);
+    expect(response.sessionId).toBe(sessionId);
+    expect(memoryStore.getSession(sessionId)?.messages[0].content).not.toContain('Original message');
+  });
+
+  it('should not attach a sender to another customer\'s thread', async () => {
+    const victim = runtime.startSession({
+      customerEmail: 'victim@example.com',
+      firstName: 'Vic',
+      lastName: 'Tim',
+      shopifyCustomerId: 'cust_victim',
+      threadId: '<2a6b53ac5ee8@example.com>'
+    });
+    await runtime.handleMessage(victim, 'Where is order #NP2001004?');
+
+    const response = await runtime.handleInboundEmail(RAW_REPLY);
+    const reply = runtime.renderReplyEmail(response.sessionId);
+
+    expect(response.resumed).toBe(false);
+    expect(response.sessionId).not.toBe(victim);
+    expect(memoryStore.getSession(victim)?.messages).toHaveLength(2);
+    expect(reply.to).toContain('user_8b7c460f7e@example.com');
+    expect(reply.text).not.toContain('NP2001004');
+  });
+
+  it('should start a session for a new sender', async () => {
+    const response = await runtime.handleInboundEmail(RAW_REPLY);
+    const session = memoryStore.getSession(response.sessionId);
+
+    expect(response.resumed).toBe(false);
+    expect(session?.customerFirstName).toBe('Parker');
+    expect(session?.customerLastName).toBe('Wilson');
+  });
+});
+
+describe('Outbound Email Rendering', () => {
+  let runtime: MASRuntime;
+
+  beforeEach(() => {
+    memoryStore.clear();
+    const { config } = buildDefaultMAS('test-brand');
+    runtime = new MASRuntime(config, createTestLLMClient());
+  });
+
+  it('should prefix Re: exactly once', () => {
+    expect(replySubject('RE: Your order is ready to ship!')).toBe('Re: Your order is ready to ship!');
+    expect(replySubject('Order update')).toBe('Re: Order update');
+  });
+
+  it('should render a threaded multipart reply', async () => {
+    const { sessionId } = await runtime.handleInboundEmail(RAW_REPLY);
+    const email = runtime.renderReplyEmail(sessionId);
+
+    expect(email.subject).toBe('Re: Your order is ready to ship!');
+    expect(email.inReplyTo).toBe('<reply-2@example.com>');
+    expect(email.references).toEqual(['<2a6b53ac5ee8@example.com>', '<reply-2@example.com>']);
+    expect(email.text.startsWith('Hi Parker,')).toBe(true);
+    expect(email.text).toContain('The test-brand Support Team');
+    expect(email.html).toContain('<p>Thanks for reaching out! Let me check that for you.</p>');
+
+    // The raw MIME parses back to the same content
+    const parsed = parseEmail(email.raw);
+    expect(parsed.inReplyTo).toBe('<reply-2@example.com>');
+    expect(parsed.text).toBe(email.text);
+    expect(parsed.html).toBe(email.html);
+  });
+
+  it('should resolve the customer answer to our reply back to the session', async () => {
+    const { sessionId } = await runtime.handleInboundEmail(RAW_REPLY);
+    const email = runtime.renderReplyEmail(sessionId);
+
+    expect(runtime.findSessionByThread(email.messageId)?.id).toBe(sessionId);
+  });
+});
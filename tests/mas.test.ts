@@ -2,12 +2,31 @@
  * MAS Tests — Verify all requirements
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { buildDefaultMAS, validateMASConfig } from '../src/meta/mas-builder';
+import { buildNATPATMAS } from '../src/brands/natpat';
 import { MASRuntime } from '../src/mas/runtime';
-import { memoryStore } from '../src/mas/memory';
+import { memoryStore, MemoryStore } from '../src/mas/memory';
+import { FileSessionStorage, InMemorySessionStorage } from '../src/mas/memory/storage';
+import { ContextWindowManager, estimateTokens } from '../src/mas/memory/context-window';
+import { customerProfiles } from '../src/mas/memory/profiles';
+import { scoreSentiment } from '../src/mas/memory/sentiment';
+import { escalationQueue, DEFAULT_BUSINESS_SLA_MINUTES } from '../src/mas/escalation';
+import { compileCondition, compileConditions } from '../src/mas/escalation/conditions';
+import { addSupportMinutes, escalationEta, escalationMessage } from '../src/mas/escalation/calendar';
+import type { MASConfig, SupportCalendar } from '../src/meta/agent-generator';
 import { tracer } from '../src/mas/tracing';
-import type { LLMClient } from '../src/mas/agents/executor';
+import { splitIntents } from '../src/meta/intent-extractor';
+import { createOpenAIClient, createOllamaClient, createLLMClient, createAnthropicClient } from '../src/mas/agents/executor';
+import { createResilientClient, LLMProviderError } from '../src/mas/agents/resilient-client';
+import { createCassetteClient, cassetteKey } from '../src/mas/agents/cassette';
+import type { LLMClient, StreamingLLMClient } from '../src/mas/agents/executor';
+import { APIServer } from '../src/api/server';
+import { toolClient } from '../src/mas/tools/client';
+import { buildHandoffContent } from '../src/mas/agents/handoff';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Test-only mock LLM client
 function createTestLLMClient(): LLMClient {
@@ -102,6 +121,65 @@ describe('MAS Runtime (Step 1)', () => {
       expect(session?.customerFirstName).toBe('Jane');
       expect(session?.shopifyCustomerId).toBe('cust_456');
     });
+
+    it('should resume session for a reply on the same thread', async () => {
+      const first = runtime.startOrResumeSession({
+        customerEmail: 'thread@example.com',
+        firstName: 'Thread',
+        lastName: 'User',
+        shopifyCustomerId: 'cust_thread',
+        threadId: '<2a6b53ac5ee8@example.com>'
+      });
+      await runtime.handleMessage(first.sessionId, 'Where is order #NP2001002?');
+
+      const reply = runtime.startOrResumeSession({
+        customerEmail: 'thread@example.com',
+        firstName: 'Thread',
+        lastName: 'User',
+        shopifyCustomerId: 'cust_thread',
+        threadId: '<reply-1@example.com>',
+        references: ['2A6B53AC5EE8@example.com']
+      });
+
+      expect(first.resumed).toBe(false);
+      expect(reply.resumed).toBe(true);
+      expect(reply.sessionId).toBe(first.sessionId);
+      expect(memoryStore.getSession(reply.sessionId)?.context.mentionedOrderNumbers).toContain('#NP2001002');
+      expect(runtime.findSessionByThread('reply-1@example.com')?.id).toBe(first.sessionId);
+    });
+
+    it('should not resume another customer\'s thread', async () => {
+      const owner = runtime.startOrResumeSession({
+        customerEmail: 'owner@example.com',
+        firstName: 'Own',
+        lastName: 'Er',
+        shopifyCustomerId: 'cust_owner',
+        threadId: '<owner-thread@example.com>'
+      });
+      await runtime.handleMessage(owner.sessionId, 'Where is order #NP2001003?');
+
+      const sameOwner = runtime.startOrResumeSession({
+        customerEmail: 'OWNER@example.com',
+        firstName: 'Own',
+        lastName: 'Er',
+        shopifyCustomerId: 'cust_owner',
+        references: ['<owner-thread@example.com>']
+      });
+      const intruder = runtime.startOrResumeSession({
+        customerEmail: 'intruder@example.com',
+        firstName: 'In',
+        lastName: 'Truder',
+        shopifyCustomerId: '',
+        threadId: '<intruder-1@example.com>',
+        references: ['<owner-thread@example.com>']
+      });
+
+      expect(sameOwner).toEqual({ sessionId: owner.sessionId, resumed: true });
+      expect(intruder.resumed).toBe(false);
+      expect(intruder.sessionId).not.toBe(owner.sessionId);
+      expect(memoryStore.getSession(intruder.sessionId)?.context.mentionedOrderNumbers).toEqual([]);
+      expect(runtime.findSessionByThread('owner-thread@example.com')?.id).toBe(owner.sessionId);
+    });
   });
 
   describe('Requirement 2: Continuous Memory', () => {
@@ -198,6 +276,60 @@ describe('MAS Runtime (Step 1)', () => {
       expect(followUp.message).toContain('escalated');
     });
 
+    it('should hand a claimed session back to automation with a note', async () => {
+      const prompts: string[] = [];
+      const { config } = buildDefaultMAS('test-brand');
+      const humanRuntime = new MASRuntime(config, {
+        async chat(messages) {
+          prompts.push(messages[0].content || '');
+          return { content: 'Happy to help further.' };
+        }
+      });
+      const sessionId = humanRuntime.startSession({
+        customerEmail: 'test@example.com',
+        firstName: 'Test',
+        lastName: 'User',
+        shopifyCustomerId: 'cust_789'
+      });
+
+      await humanRuntime.handleMessage(sessionId, 'I want to speak to a human');
+      humanRuntime.claimSession(sessionId, 'alice');
+
+      const held = await humanRuntime.handleMessage(sessionId, 'Are you there?');
+      expect(held.message).toBe('');
+      expect(held.humanAgent).toBe('alice');
+
+      humanRuntime.postHumanReply(sessionId, 'alice', 'Hi, Alice here. I have issued your replacement.');
+      humanRuntime.releaseSession(sessionId, 'alice', 'Replacement pack sent, promised tracking within 24h');
+
+      const response = await humanRuntime.handleMessage(sessionId, 'Thanks, when will it ship?');
+      expect(response.escalated).toBe(false);
+      expect(prompts[prompts.length - 1]).toContain('HANDBACK FROM HUMAN AGENT (alice)');
+
+      const session = memoryStore.getSession(sessionId);
+      expect(session?.messages.find(m => m.author === 'human:alice')?.content).toContain('Alice here');
+      expect(session?.messages.map(m => m.content)).toContain('Are you there?');
+    });
+
+    it('should reject takeover requests without a usable body', async () => {
+      const api = new APIServer(runtime);
+      const sessionId = runtime.startSession({
+        customerEmail: 'test@example.com',
+        firstName: 'Test',
+        lastName: 'User',
+        shopifyCustomerId: 'cust_789'
+      });
+      const post = (action: string, body?: string) => api.handle(new Request(`http://localhost/session/${sessionId}/${action}`, {
+        method: 'POST',
+        body
+      }));
+
+      expect((await post('claim')).status).toBe(400);
+      expect((await post('claim', 'not json')).status).toBe(400);
+      expect((await post('human-reply', JSON.stringify({ agent: 'alice', message: 42 }))).status).toBe(400);
+      expect((await post('release', JSON.stringify({ agent: 'alice', note: ['x'] }))).status).toBe(400);
+    });
+
     it('should include escalation summary', async () => {
       const sessionId = runtime.startSession({
         customerEmail: 'test@example.com',
@@ -214,6 +346,1405 @@ describe('MAS Runtime (Step 1)', () => {
   });
 });
 
+describe('Session Persistence', () => {
+  it('should restore sessions from file storage', () => {
+    const filePath = join(mkdtempSync(join(tmpdir(), 'mas-')), 'sessions.jsonl');
+
+    const before = new MemoryStore();
+    before.useStorage(new FileSessionStorage(filePath, ['orderHistory']));
+    const session = before.startSession({
+      customerEmail: 'persist@example.com',
+      firstName: 'Per',
+      lastName: 'Sist',
+      shopifyCustomerId: 'cust_persist'
+    });
+    before.addMessage(session.id, 'customer', 'Where is order #NP1234567?');
+    before.recordToolCall(session.id, 'shopify_get_customer_orders', {}, { success: true, data: { orders: [{ id: 1 }] } });
+    before.recordToolCall(session.id, 'skio_get_subscription_status', {}, { success: true, data: { status: 'ACTIVE' } });
+    before.escalate(session.id, 'customer explicitly requested human agent', { reason: 'test' });
+
+    const after = new MemoryStore();
+    after.useStorage(new FileSessionStorage(filePath, ['orderHistory']));
+    const restored = after.getSession(session.id);
+
+    expect(restored?.messages).toHaveLength(1);
+    expect(restored?.toolCalls).toHaveLength(2);
+    expect(restored?.context.mentionedOrderNumbers).toContain('#NP1234567');
+    expect(restored?.context.escalationSummary).toEqual({ reason: 'test' });
+    expect(restored?.context.orderHistory).toHaveLength(1);
+    expect(restored?.context.subscriptionStatus).toBeUndefined();
+    expect(after.isEscalated(session.id)).toBe(true);
+  });
+
+  it('should compact the log while running once superseded records pile up', () => {
+    const filePath = join(mkdtempSync(join(tmpdir(), 'mas-')), 'sessions.jsonl');
+    const lineCount = () => readFileSync(filePath, 'utf-8').split('\n').filter(Boolean).length;
+
+    const store = new MemoryStore();
+    store.useStorage(new FileSessionStorage(filePath, [], 10));
+    const session = store.startSession({ customerEmail: 'compact@example.com', firstName: 'Com', lastName: 'Pact', shopifyCustomerId: 'cust_compact' });
+    for (let i = 0; i < 25; i++) {
+      store.addMessage(session.id, 'customer', `Message ${i}`);
+    }
+
+    expect(lineCount()).toBeLessThanOrEqual(11);
+
+    const restored = new MemoryStore();
+    restored.useStorage(new FileSessionStorage(filePath));
+    expect(restored.getSession(session.id)?.messages).toHaveLength(25);
+  });
+});
+
+describe('Context Window', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function buildLongSession() {
+    // One second per event so tool calls order between messages
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const tick = () => vi.advanceTimersByTime(1000);
+
+    const store = new MemoryStore();
+    const session = store.startSession({
+      customerEmail: 'long@example.com',
+      firstName: 'Long',
+      lastName: 'Thread',
+      shopifyCustomerId: 'cust_long'
+    });
+    for (let i = 0; i < 10; i++) {
+      tick();
+      store.addMessage(session.id, 'customer', `Question ${i} about order #NP100000${i}`);
+      tick();
+      store.recordToolCall(session.id, 'shopify_get_order_details', { orderId: `#NP100000${i}` }, { success: true, data: {} });
+      tick();
+      store.addMessage(session.id, 'agent', `Answer ${i}: `.padEnd(200, 'x'));
+    }
+    tick();
+    store.addMessage(session.id, 'customer', 'Latest question');
+    return store.getSession(session.id)!;
+  }
+
+  it('should keep recent turns verbatim and fold older ones into the summary', () => {
+    const session = buildLongSession();
+    const manager = new ContextWindowManager({ maxTurns: 4, tokenBudget: 100000 });
+
+    const { messages, summary } = manager.build(session, 'SYSTEM', 'Latest question');
+
+    // system + 4 recent turns (question and answer) + current (current message is not duplicated)
+    expect(messages).toHaveLength(10);
+    expect(messages[1].content).toBe('Question 6 about order #NP1000006');
+    expect(messages[messages.length - 1].content).toBe('Latest question');
+    expect(summary?.foldedMessages).toBe(12);
+    expect(summary?.foldedToolCalls).toBe(6);
+    expect(messages[0].content).toContain('- Customer: Question 0 about order #NP1000000');
+    expect(messages[0].content).toContain('- Tool shopify_get_order_details');
+  });
+
+  it('should stay under the token budget', () => {
+    const session = buildLongSession();
+    const manager = new ContextWindowManager({ maxTurns: 50, tokenBudget: 300 });
+
+    const { messages } = manager.build(session, 'SYSTEM', 'Latest question');
+    const tokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+    expect(tokens).toBeLessThanOrEqual(300);
+    expect(messages[messages.length - 1].content).toBe('Latest question');
+  });
+
+  it('should count tool schemas against the budget', () => {
+    const session = buildLongSession();
+    const manager = new ContextWindowManager({ maxTurns: 50, tokenBudget: 600 });
+    const tools = [{ name: 'lookup', description: 'd'.repeat(1200), parameters: {} }];
+
+    const { messages } = manager.build(session, 'SYSTEM', 'Latest question', tools);
+    const tokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0) + estimateTokens(JSON.stringify(tools));
+
+    expect(tokens).toBeLessThanOrEqual(600);
+  });
+
+  it('should cut an oversized system prompt before the customer message', () => {
+    const session = buildLongSession();
+    const manager = new ContextWindowManager({ maxTurns: 50, tokenBudget: 100 });
+
+    const { messages } = manager.build(session, 'S'.repeat(2000), 'Latest question');
+
+    expect(messages[0].content!.length).toBeLessThan(2000);
+    expect(messages[messages.length - 1].content).toBe('Latest question');
+    expect(messages.reduce((sum, m) => sum + estimateTokens(m.content), 0)).toBeLessThanOrEqual(100);
+  });
+
+  it('should shorten an oversized customer message and keep the task and boundaries', () => {
+    const session = buildLongSession();
+    const manager = new ContextWindowManager({ maxTurns: 50, tokenBudget: 2000 });
+    const system = 'You are the refund agent.\n\nCUSTOMER CONTEXT:\n- Name: Long Thread' +
+      '\n\nCURRENT TASK:\nAnswer the refund part' +
+      '\n\nBOUNDARIES (must follow):\n- Never refund without a return';
+    const message = `Start of my email. ${'blah '.repeat(6000)}End of my email.`;
+
+    const { messages } = manager.build(session, system, message);
+    const reply = messages[messages.length - 1].content!;
+
+    expect(messages[0].content).toBe(system);
+    expect(reply.startsWith('Start of my email.')).toBe(true);
+    expect(reply.endsWith('End of my email.')).toBe(true);
+    expect(messages.reduce((sum, m) => sum + estimateTokens(m.content), 0)).toBeLessThanOrEqual(2000);
+
+    // Even when the message floor leaves no room, the protected sections stay
+    const tight = new ContextWindowManager({ maxTurns: 50, tokenBudget: 40 }).build(session, system, message).messages[0].content;
+    expect(tight).toContain('BOUNDARIES (must follow):\n- Never refund without a return');
+    expect(tight).toContain('CURRENT TASK:\nAnswer the refund part');
+  });
+});
+
+describe('Session Lifecycle', () => {
+  let runtime: MASRuntime;
+  const customer = {
+    customerEmail: 'life@example.com',
+    firstName: 'Life',
+    lastName: 'Cycle',
+    shopifyCustomerId: 'cust_life'
+  };
+
+  beforeEach(() => {
+    memoryStore.clear();
+    const { config } = buildDefaultMAS('test-brand');
+    runtime = new MASRuntime(config, createTestLLMClient());
+  });
+
+  it('should resolve with outcome and reopen on customer reply', async () => {
+    const sessionId = runtime.startSession(customer);
+    await runtime.handleMessage(sessionId, 'Where is my order?');
+
+    runtime.resolveSession(sessionId, 'answered', 'tracking link sent');
+    expect(memoryStore.getSession(sessionId)?.resolution?.outcome).toBe('answered');
+
+    await runtime.handleMessage(sessionId, 'It still has not arrived');
+
+    const session = memoryStore.getSession(sessionId);
+    expect(session?.status).toBe('active');
+    expect(session?.resolution).toBeUndefined();
+
+    const lifecycle = JSON.parse(runtime.getTraceJson(sessionId)).timeline
+      .filter((e: { type: string }) => e.type === 'lifecycle')
+      .map((e: { data: { to: string } }) => e.data.to);
+    expect(lifecycle).toEqual(['resolved', 'active']);
+  });
+
+  it('should expire inactive sessions and reject invalid transitions', () => {
+    const sessionId = runtime.startSession(customer);
+
+    expect(runtime.expireInactiveSessions(Date.now() + 60 * 1000)).toEqual([]);
+    expect(runtime.expireInactiveSessions(Date.now() + 73 * 60 * 60 * 1000)).toEqual([sessionId]);
+    expect(runtime.getActiveSessions()).toHaveLength(0);
+
+    runtime.archiveSession(sessionId);
+    expect(() => runtime.reopenSession(sessionId, 'too late')).toThrow('Invalid session transition');
+  });
+
+  it('should not expire an escalated session waiting on a human', async () => {
+    const sessionId = runtime.startSession(customer);
+    await runtime.handleMessage(sessionId, 'I want to speak to a real person');
+    expect(memoryStore.getSession(sessionId)?.status).toBe('escalated');
+
+    expect(runtime.expireInactiveSessions(Date.now() + 73 * 60 * 60 * 1000)).toEqual([]);
+    expect(memoryStore.getSession(sessionId)?.status).toBe('escalated');
+    expect(runtime.getEscalations().find(item => item.sessionId === sessionId)?.status).toBe('open');
+  });
+
+  it('should start a new session for replies on an archived thread', () => {
+    const first = runtime.startSession({ ...customer, threadId: '<archived@example.com>' });
+    runtime.resolveSession(first, 'duplicate');
+    runtime.archiveSession(first);
+
+    const reply = runtime.startOrResumeSession({ ...customer, references: ['<archived@example.com>'] });
+    expect(reply.resumed).toBe(false);
+  });
+});
+
+describe('Customer Profiles', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+    customerProfiles.clear();
+  });
+
+  it('should inject history from earlier sessions into the system prompt', async () => {
+    const prompts: string[] = [];
+    const client: LLMClient = {
+      async chat(messages) {
+        prompts.push(messages[0].content || '');
+        return { content: 'Let me check that.' };
+      }
+    };
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, client);
+    const customer = {
+      customerEmail: 'repeat@example.com',
+      firstName: 'Re',
+      lastName: 'Peat',
+      shopifyCustomerId: 'cust_repeat'
+    };
+
+    const first = runtime.startSession(customer);
+    await runtime.handleMessage(first, 'Where is my order #NP2001002?');
+    memoryStore.recordToolCall(first, 'skio_pause_subscription', {}, { success: true });
+    await runtime.handleMessage(first, 'Thanks!');
+    expect(prompts[0]).not.toContain('CUSTOMER HISTORY');
+
+    const second = runtime.startSession({ ...customer, customerEmail: 'REPEAT@example.com' });
+    await runtime.handleMessage(second, 'Hello again');
+
+    const prompt = prompts[prompts.length - 1];
+    expect(prompt).toContain('CUSTOMER HISTORY');
+    expect(prompt).toContain('1 previous conversation');
+    expect(prompt).toContain('#NP2001002');
+    expect(prompt).toContain('Retention offers already made: pause');
+    expect(runtime.getCustomerProfile('cust_repeat')?.sessions).toHaveLength(2);
+  });
+});
+
+describe('Orchestrator Modes', () => {
+  const customer = {
+    customerEmail: 'modes@example.com',
+    firstName: 'Mo',
+    lastName: 'Des',
+    shopifyCustomerId: 'cust_modes'
+  };
+
+  beforeEach(() => {
+    memoryStore.clear();
+  });
+
+  it('should run a sequential chain and reply only from the last step', async () => {
+    const prompts: string[] = [];
+    const client: LLMClient = {
+      async chat(messages) {
+        const system = messages[0].content || '';
+        prompts.push(system);
+        return { content: `done: ${system.match(/STEP \d OF \d/)?.[0]}` };
+      }
+    };
+    const { config } = buildDefaultMAS('test-brand');
+    config.orchestrator.type = 'sequential';
+    config.orchestrator.sequence = [
+      { agentId: 'order-status-inquiry-agent', instruction: 'Verify the order exists' },
+      { agentId: 'order-cancellation-agent', instruction: 'Cancel the order' },
+      { agentId: 'general-support-agent', instruction: 'Confirm the outcome to the customer' }
+    ];
+    expect(validateMASConfig(config).issues).toEqual([]);
+
+    const runtime = new MASRuntime(config, client);
+    const sessionId = runtime.startSession(customer);
+    const response = await runtime.handleMessage(sessionId, 'Please cancel order #NP1001');
+
+    expect(response.message).toBe('done: STEP 3 OF 3');
+    expect(prompts[2]).toContain('- order-cancellation-agent: done: STEP 2 OF 3');
+
+    const session = memoryStore.getSession(sessionId);
+    expect(session?.messages.filter(m => m.role === 'agent')).toHaveLength(1);
+    expect(session?.context.currentAgent).toBe('general-support-agent');
+
+    const steps = JSON.parse(runtime.getTraceJson(sessionId)).timeline
+      .filter((e: { type: string }) => e.type === 'routing')
+      .map((e: { data: { to: string } }) => e.data.to);
+    expect(steps).toEqual(['order-status-inquiry-agent', 'order-cancellation-agent', 'general-support-agent']);
+  });
+
+  it('should let the supervisor consult specialists and compose the reply', async () => {
+    const prompts: string[] = [];
+    const client: LLMClient = {
+      async chat(messages) {
+        const system = messages[0].content || '';
+        prompts.push(system);
+        if (system.includes('You are the SUPERVISOR')) {
+          return { content: '{"consult": ["subscription-management-agent", "unknown-agent", "order-status-inquiry-agent"], "reason": "two requests"}' };
+        }
+        if (system.includes('SPECIALIST REPORTS')) {
+          return { content: 'Your subscription is paused and your order ships tomorrow.' };
+        }
+        return { content: `report from ${system.split('\n')[0]}` };
+      }
+    };
+    const { config } = buildDefaultMAS('test-brand');
+    config.orchestrator.type = 'supervisor';
+    config.orchestrator.supervisor = { agentId: 'general-support-agent', maxConsultations: 2 };
+
+    const runtime = new MASRuntime(config, client);
+    const sessionId = runtime.startSession(customer);
+    const response = await runtime.handleMessage(sessionId, 'Pause my subscription and where is my order?');
+
+    expect(response.message).toBe('Your subscription is paused and your order ships tomorrow.');
+    const composePrompt = prompts[prompts.length - 1];
+    expect(composePrompt).toContain('[subscription-management-agent]');
+    expect(composePrompt).toContain('[order-status-inquiry-agent]');
+
+    const session = memoryStore.getSession(sessionId);
+    expect(session?.messages.filter(m => m.role === 'agent').map(m => m.author)).toEqual(['general-support-agent']);
+  });
+
+  it('should show the supervisor the new message once', async () => {
+    const plans: string[] = [];
+    const client: LLMClient = {
+      async chat(messages) {
+        if ((messages[0].content || '').includes('You are the SUPERVISOR')) {
+          plans.push(messages[1].content || '');
+          return { content: '{"consult": [], "reason": "answer directly"}' };
+        }
+        return { content: 'Happy to help.' };
+      }
+    };
+    const { config } = buildDefaultMAS('test-brand');
+    config.orchestrator.type = 'supervisor';
+    config.orchestrator.supervisor = { agentId: 'general-support-agent', maxConsultations: 2 };
+
+    const runtime = new MASRuntime(config, client);
+    const sessionId = runtime.startSession(customer);
+    await runtime.handleMessage(sessionId, 'Hi there');
+    await runtime.handleMessage(sessionId, 'Pause my subscription please');
+
+    expect(plans[1]).toContain('customer: Hi there');
+    expect(plans[1].split('Pause my subscription please')).toHaveLength(2);
+  });
+});
+
+describe('Multi-Intent Requests', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+  });
+
+  it('should split compound requests by intent', () => {
+    const segments = splitIntents('cancel my subscription and where is my order #NP3001002?');
+    expect(segments.map(s => [s.text, s.intent.primary])).toEqual([
+      ['cancel my subscription', 'SUBSCRIPTION_CANCEL'],
+      ['where is my order #NP3001002?', 'ORDER_STATUS']
+    ]);
+
+    expect(splitIntents('Where is my order? It was supposed to arrive last week.')).toHaveLength(1);
+  });
+
+  it('should handle each part with its specialist and merge the replies', async () => {
+    const prompts: string[] = [];
+    const client: LLMClient = {
+      async chat(messages) {
+        const system = messages[0].content || '';
+        prompts.push(system);
+        if (system.includes('SPECIALIST REPORTS')) {
+          return { content: 'Your refund is on its way and your address is updated.' };
+        }
+        const part = system.match(/Handle ONLY this part: "([^"]+)"/)?.[1];
+        return { content: `handled: ${part}` };
+      }
+    };
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, client);
+    const sessionId = runtime.startSession({
+      customerEmail: 'multi@example.com',
+      firstName: 'Multi',
+      lastName: 'Intent',
+      shopifyCustomerId: 'cust_multi'
+    });
+
+    const response = await runtime.handleMessage(sessionId, 'I want a refund for #NP3001002 and please change my shipping address');
+    expect(response.message).toBe('Your refund is on its way and your address is updated.');
+
+    const mergePrompt = prompts[prompts.length - 1];
+    expect(mergePrompt).toContain('handled: I want a refund for #NP3001002');
+    expect(mergePrompt).toContain('handled: please change my shipping address');
+
+    const branches = JSON.parse(runtime.getTraceJson(sessionId)).timeline
+      .filter((e: { type: string }) => e.type === 'branch')
+      .map((e: { data: { agent: string; success: boolean } }) => [e.data.agent, e.data.success]);
+    expect(branches).toEqual([['refund-processing-agent', true], ['address-update-agent', true]]);
+
+    const session = memoryStore.getSession(sessionId);
+    expect(session?.messages.filter(m => m.role === 'agent')).toHaveLength(1);
+  });
+});
+
+describe('Routing Decisions', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+  });
+
+  it('should record rule scores, continuity overrides and the final pick', async () => {
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, createTestLLMClient());
+    const sessionId = runtime.startSession({
+      customerEmail: 'routing@example.com',
+      firstName: 'Route',
+      lastName: 'Audit',
+      shopifyCustomerId: 'cust_routing'
+    });
+
+    await runtime.handleMessage(sessionId, 'I need a refund for my order');
+
+    // An order question while the order agent holds the conversation
+    memoryStore.setCurrentAgent(sessionId, 'order-status-inquiry-agent');
+    await runtime.handleMessage(sessionId, 'Where is my order?');
+
+    const [refund, status] = runtime.getRoutingDecisions(sessionId);
+    expect(refund.ruleWinner).toBe('refund-request');
+    expect(refund.finalAgent).toBe('refund-processing-agent');
+    expect(refund.candidates).toHaveLength(config.orchestrator.routing.length);
+    expect(refund.candidates[0]).toMatchObject({
+      intentId: 'refund-request',
+      keywordHits: ['refund'],
+      intentScore: 0.5,
+      score: 0.7,
+      eligible: true
+    });
+
+    expect(status.ruleAgent).toBe('general-support-agent');
+    expect(status.finalAgent).toBe('order-status-inquiry-agent');
+    expect(status.continuity).toMatchObject({ currentAgent: 'order-status-inquiry-agent', applied: true });
+    expect(runtime.getTrace(sessionId)).toContain('ORDER_STATUS → order-status-inquiry-agent via order-status (stayed:');
+  });
+});
+
+describe('Agent Handoff', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+  });
+
+  it('should pass a structured note to the incoming agent when routing switches', async () => {
+    const prompts: string[] = [];
+    const client: LLMClient = {
+      async chat(messages) {
+        const system = messages[0].content || '';
+        if (system.includes('handoff note')) {
+          return { content: '{"facts_verified": ["Order #NP1 delivered"], "actions_taken": [], "pending_promises": ["Return label by email within 2 days"]}' };
+        }
+        prompts.push(system);
+        return { content: 'I\'ll email you a return label within 2 days. Anything else?' };
+      }
+    };
+
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, client);
+    const sessionId = runtime.startSession({ customerEmail: 'handoff@example.com', firstName: 'Hand', lastName: 'Off', shopifyCustomerId: 'cust_handoff' });
+
+    await runtime.handleMessage(sessionId, 'I need a refund for my order');
+    memoryStore.recordToolCall(sessionId, 'shopify_get_order_details', { orderId: '#NP1' }, { success: true, data: { status: 'DELIVERED' } }, 'refund-processing-agent');
+
+    // What the session alone shows about the refund agent's work
+    const fromSession = buildHandoffContent(memoryStore.getSession(sessionId)!, 'refund-processing-agent');
+    expect(fromSession.factsVerified).toEqual(['shopify_get_order_details(orderId=#NP1): {"status":"DELIVERED"}']);
+    expect(fromSession.pendingPromises).toEqual(['I\'ll email you a return label within 2 days.']);
+
+    await runtime.handleMessage(sessionId, 'Also, can I pause my subscription?');
+
+    const [note] = memoryStore.getSession(sessionId)!.context.handoffNotes!;
+    expect(note).toMatchObject({
+      from: 'refund-processing-agent',
+      source: 'agent',
+      pendingPromises: ['Return label by email within 2 days']
+    });
+    expect(note.to).not.toBe('refund-processing-agent');
+    expect(prompts[1]).toContain('HANDOFF FROM refund-processing-agent');
+    expect(prompts[1]).toContain('- Return label by email within 2 days');
+    expect(runtime.getTrace(sessionId)).toContain('HANDOFF: refund-processing-agent →');
+  });
+});
+
+describe('Escalation Queue', () => {
+  let runtime: MASRuntime;
+
+  beforeEach(() => {
+    memoryStore.clear();
+    customerProfiles.clear();
+    escalationQueue.clear();
+    const { config } = buildDefaultMAS('test-brand');
+    runtime = new MASRuntime(config, createTestLLMClient());
+  });
+
+  it('should rank escalations by reason, order amount and sentiment', async () => {
+    const plain = runtime.startSession({
+      customerEmail: 'plain@example.com',
+      firstName: 'Plain',
+      lastName: 'Case',
+      shopifyCustomerId: 'cust_plain'
+    });
+    await runtime.handleMessage(plain, 'Can I talk to a human please');
+
+    const big = memoryStore.startSession({
+      customerEmail: 'big@example.com',
+      firstName: 'Big',
+      lastName: 'Order',
+      shopifyCustomerId: 'cust_big'
+    });
+    memoryStore.recordToolCall(big.id, 'shopify_get_order_details', { orderId: '#NP1' }, {
+      success: true,
+      data: { order: { totalPriceSet: { shopMoney: { amount: '240.00' } } } }
+    });
+    const urgent = escalationQueue.enqueue(big, 'Customer reports allergic reaction', { sentiment: -0.8 });
+
+    expect(urgent.breakdown).toEqual({ reason: 40, customerValue: 0, orderAmount: 20, sentiment: 16 });
+    expect(urgent.priority).toBe('urgent');
+    expect(Date.parse(urgent.slaDueAt) - Date.parse(urgent.createdAt)).toBe(60 * 60 * 1000);
+
+    const queue = runtime.getEscalations();
+    expect(queue.map(e => e.sessionId)).toEqual([big.id, plain]);
+    expect(queue[1].priority).toBe('normal');
+    expect(memoryStore.getSession(plain)?.context.escalationSummary?.priority).toBe('normal');
+  });
+
+  it('should assign, claim and complete an escalation', async () => {
+    const sessionId = runtime.startSession({
+      customerEmail: 'queue@example.com',
+      firstName: 'Queue',
+      lastName: 'User',
+      shopifyCustomerId: 'cust_queue'
+    });
+    await runtime.handleMessage(sessionId, 'Let me speak to your manager');
+    await runtime.handleMessage(sessionId, 'Hello?');
+
+    const [item] = runtime.getEscalations('open');
+    expect(runtime.getEscalations()).toHaveLength(1);
+
+    runtime.assignEscalation(item.id, 'bob');
+    expect(() => runtime.claimEscalation(item.id, 'alice')).toThrow('assigned to bob');
+    expect(() => runtime.completeEscalation(item.id, 'bob')).toThrow('must be claimed');
+
+    runtime.claimEscalation(item.id, 'bob');
+    expect(memoryStore.getSession(sessionId)?.context.humanAgent).toBe('bob');
+
+    runtime.completeEscalation(item.id, 'bob', 'Refund issued');
+    expect(escalationQueue.get(item.id)?.status).toBe('completed');
+    expect(memoryStore.getSession(sessionId)?.resolution?.outcome).toBe('escalation_resolved');
+    expect(runtime.getEscalations('open')).toHaveLength(0);
+  });
+
+  it('should keep queue IDs and deadlines when the queue is rebuilt after a restart', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mas-'));
+    vi.stubEnv('SESSION_STORE_PATH', join(dir, 'sessions.jsonl'));
+    vi.stubEnv('PROFILE_STORE_PATH', join(dir, 'profiles.json'));
+    const { config } = buildDefaultMAS('test-brand');
+    const persistent = { ...config, memory: { ...config.memory, type: 'persistent' as const } };
+
+    try {
+      const before = new MASRuntime(persistent, createTestLLMClient());
+      const sessionId = before.startSession({ customerEmail: 'restart@example.com', firstName: 'Re', lastName: 'Start', shopifyCustomerId: 'cust_restart' });
+      await before.handleMessage(sessionId, 'I need a real person');
+      const summary = memoryStore.getSession(sessionId)?.context.escalationSummary;
+
+      escalationQueue.clear();
+      const after = new MASRuntime(persistent, createTestLLMClient());
+      const [item] = after.getEscalations();
+
+      expect(item.id).toBe(summary?.queue_id);
+      expect(item.slaDueAt).toBe(summary?.sla_due_at);
+      expect(item.priority).toBe(summary?.priority);
+    } finally {
+      vi.unstubAllEnvs();
+      memoryStore.useStorage(new InMemorySessionStorage());
+    }
+  });
+
+  it('should set the SLA and message from the brand support calendar', async () => {
+    const calendar: SupportCalendar = {
+      timezone: 'America/Chicago',
+      hours: { mon: { open: '09:00', close: '17:00' }, wed: { open: '09:00', close: '17:00' }, fri: { open: '09:00', close: '17:00' } },
+      holidays: [{ date: '2026-11-26', name: 'Thanksgiving' }]
+    };
+
+    // Wednesday 10:00 CST: open, reply later today
+    const open = escalationEta(calendar, 60, new Date('2026-11-25T16:00:00Z'));
+    expect(open).toMatchObject({ status: 'open', expectedResponse: 'within 1 hour' });
+
+    // Wednesday 16:30 CST: half an hour today, the rest from Friday's opening
+    expect(addSupportMinutes(calendar, new Date('2026-11-25T22:30:00Z'), 120).toISOString()).toBe('2026-11-27T16:30:00.000Z');
+
+    // Thanksgiving 03:00 CST: closed until Friday 09:00
+    const holiday = escalationEta(calendar, 60, new Date('2026-11-26T09:00:00Z'));
+    expect(holiday).toMatchObject({ status: 'holiday', holiday: 'Thanksgiving' });
+    expect(holiday.dueAt.toISOString()).toBe('2026-11-27T16:00:00.000Z');
+    expect(escalationMessage(holiday)).toBe(
+      'I\'m escalating this to our team. Our office is closed for Thanksgiving, so a specialist will reply by Friday, Nov 27, 10:00 AM CST.'
+    );
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-11-26T09:00:00Z'));
+    try {
+      const { config } = buildDefaultMAS('test-brand');
+      config.brandContext.supportCalendar = calendar;
+      config.orchestrator.escalationHandler.slaMinutes = { normal: 60 };
+      const staffed = new MASRuntime(config, createTestLLMClient());
+      const sessionId = staffed.startSession({ customerEmail: 'holiday@example.com', firstName: 'Late', lastName: 'Night', shopifyCustomerId: 'cust_holiday' });
+
+      const response = await staffed.handleMessage(sessionId, 'Can I talk to a human please');
+      expect(response.message).toContain('closed for Thanksgiving');
+      expect(response.escalationSummary).toMatchObject({
+        support_status: 'holiday',
+        sla_minutes: 60,
+        sla_due_at: '2026-11-27T16:00:00.000Z',
+        expected_response: 'by Friday, Nov 27, 10:00 AM CST'
+      });
+
+      const held = await staffed.handleMessage(sessionId, 'Hello?');
+      expect(held.message).toBe('This issue has been escalated to our team. A specialist will respond by Friday, Nov 27, 10:00 AM CST.');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should promise a business-hour ETA per priority tier', () => {
+    const calendar = buildNATPATMAS().config.brandContext.supportCalendar!;
+    const monday = new Date('2026-10-19T15:00:00Z'); // 10:00 CDT
+
+    const promised = Object.fromEntries(Object.entries(DEFAULT_BUSINESS_SLA_MINUTES)
+      .map(([tier, minutes]) => [tier, escalationEta(calendar, minutes, monday).expectedResponse]));
+    expect(promised).toEqual({
+      urgent: 'within 1 hour',
+      high: 'within 4 hours',
+      normal: 'by Tuesday, Oct 20, 10:00 AM CDT',
+      low: 'by Wednesday, Oct 21, 10:00 AM CDT'
+    });
+
+    const session = memoryStore.startSession({ customerEmail: 'tier@example.com', firstName: 'Tier', lastName: 'Check', shopifyCustomerId: 'cust_tier' });
+    const item = escalationQueue.enqueue(session, 'customer explicitly requested human agent', { calendar, now: monday.getTime() });
+    expect(item).toMatchObject({ priority: 'normal', slaMinutes: 480, slaDueAt: '2026-10-20T15:00:00.000Z' });
+  });
+
+  it('should escalate when customer frustration builds up', async () => {
+    expect(scoreSentiment('Thanks so much, that is perfect!').score).toBeGreaterThan(0.5);
+    expect(scoreSentiment('This is not good').score).toBeLessThan(0);
+
+    const sessionId = runtime.startSession({
+      customerEmail: 'angry@example.com',
+      firstName: 'Angry',
+      lastName: 'Customer',
+      shopifyCustomerId: 'cust_angry'
+    });
+
+    const first = await runtime.handleMessage(sessionId, 'Where is my order? It is late.');
+    expect(first.escalated).toBe(false);
+
+    const second = await runtime.handleMessage(sessionId, 'This is RIDICULOUS. I still have not received it and nobody replies!!');
+    expect(second.escalated).toBe(true);
+
+    const session = memoryStore.getSession(sessionId)!;
+    expect(session.context.sentiment?.history).toHaveLength(2);
+    expect(session.context.escalationReason).toMatch(/^customer frustrated/);
+    expect(session.context.escalationSummary?.customer_sentiment).toMatchObject({
+      label: 'negative',
+      trend: 'worsening',
+      signals: expect.arrayContaining(['still waiting', 'ignored'])
+    });
+    expect(runtime.getEscalations()[0].breakdown.sentiment).toBeGreaterThan(0);
+  });
+
+  it('should respect configured sentiment thresholds', async () => {
+    const { config } = buildDefaultMAS('test-brand');
+    config.orchestrator.escalationHandler.sentiment = { enabled: false };
+    const calm = new MASRuntime(config, createTestLLMClient());
+    const sessionId = calm.startSession({ customerEmail: 'calm@example.com', firstName: 'Calm', lastName: 'Config', shopifyCustomerId: 'cust_calm' });
+
+    const response = await calm.handleMessage(sessionId, 'This is unacceptable, I am fed up. Waste of money!!');
+    expect(response.escalated).toBe(false);
+    expect(memoryStore.getSession(sessionId)?.context.sentiment?.frustration).toBe(1);
+  });
+});
+
+describe('Escalation Conditions', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+    escalationQueue.clear();
+  });
+
+  it('should compile workflow manual conditions into predicates', () => {
+    const { compiled, uncompiled } = compileConditions(['Outside return window', 'damage claim', 'Customer prefers blue']);
+    expect(compiled.map(c => c.kind)).toEqual(['order-age', 'damaged']);
+    expect(uncompiled).toEqual(['Customer prefers blue']);
+
+    const session = memoryStore.startSession({ customerEmail: 'window@example.com', firstName: 'Late', lastName: 'Return', shopifyCustomerId: 'cust_window' });
+    memoryStore.recordToolCall(session.id, 'shopify_get_order_details', { orderId: '#NP9' }, {
+      success: true,
+      data: { order: { name: '#NP9', createdAt: '2026-01-01T00:00:00Z', status: 'DELIVERED' } }
+    });
+    const now = Date.parse('2026-03-02T00:00:00Z');
+
+    const [window] = compiled;
+    expect(window.evaluate({ session, message: 'I want to return these', now })).toBe('order placed 60 days ago (limit 30)');
+    expect(window.evaluate({ session, message: 'Where is my order?', now })).toBeUndefined();
+    expect(compileCondition('disputes more than 60 days old')!.evaluate({ session, message: 'I want a refund', now })).toBeUndefined();
+  });
+
+  it('should escalate on the routed agent condition before the agent runs', async () => {
+    const prompts: string[] = [];
+    const client: LLMClient = {
+      async chat(messages) {
+        prompts.push(messages[0].content || '');
+        return { content: 'Address updated.' };
+      }
+    };
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, client);
+    const sessionId = runtime.startSession({ customerEmail: 'shipped@example.com', firstName: 'Ship', lastName: 'Ped', shopifyCustomerId: 'cust_shipped' });
+
+    memoryStore.recordToolCall(sessionId, 'shopify_get_order_details', { orderId: '#NP2001001' }, {
+      success: true,
+      data: { order: { name: '#NP2001001', status: 'FULFILLED' } }
+    });
+
+    const response = await runtime.handleMessage(sessionId, 'Please change address on #NP2001001');
+    expect(response.escalated).toBe(true);
+    expect(memoryStore.getSession(sessionId)?.context.currentAgent).toBe('address-update-agent');
+    expect(memoryStore.getSession(sessionId)?.context.escalationReason)
+      .toBe('Order already shipped (order is FULFILLED and customer asked to change it)');
+    expect(prompts).toHaveLength(0);
+  });
+
+  it('should hold a refund without return for a human before any refund is issued', async () => {
+    const client: LLMClient = {
+      async chat(messages) {
+        if (messages.some(m => m.role === 'tool')) {
+          return { content: 'Done, I refunded #NP2001001 in full.' };
+        }
+        return {
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'shopify_refund_order', arguments: '{"orderId":"#NP2001001"}' } }]
+        };
+      }
+    };
+    const runtime = new MASRuntime(buildNATPATMAS().config, client);
+    const sessionId = runtime.startSession({ customerEmail: 'keep@example.com', firstName: 'Keep', lastName: 'Er', shopifyCustomerId: 'cust_keep' });
+
+    const response = await runtime.handleMessage(sessionId, 'I want a full refund for order #NP2001001 and I will keep them');
+    const session = memoryStore.getSession(sessionId)!;
+
+    expect(response.escalated).toBe(true);
+    expect(session.context.currentAgent).toBe('refund-processing-agent');
+    expect(session.context.escalationReason).toContain('refund without return');
+    expect(session.toolCalls.map(t => t.toolHandle)).not.toContain('shopify_refund_order');
+    expect(session.messages.map(m => m.content)).not.toContain('Done, I refunded #NP2001001 in full.');
+  });
+
+  it('should compile missing-item conditions from their wording', () => {
+    const session = memoryStore.startSession({ customerEmail: 'missing@example.com', firstName: 'Miss', lastName: 'Ing', shopifyCustomerId: 'cust_missing' });
+    const multiple = compileCondition('Multiple items missing')!;
+    const single = compileCondition('Item missing from order')!;
+
+    expect(multiple.kind).toBe('missing-items');
+    expect(multiple.evaluate({ session, message: 'Multiple items missing from my box' })).toBe('customer wrote "items missing"');
+    expect(multiple.evaluate({ session, message: 'Two of the patches are missing' })).toBeDefined();
+    expect(multiple.evaluate({ session, message: 'One item is missing' })).toBeUndefined();
+    expect(single.evaluate({ session, message: 'One item is missing' })).toBeDefined();
+    expect(compileCondition('Missing tracking number')).toBeUndefined();
+  });
+});
+
+describe('Agent Escalation Tool', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+    escalationQueue.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should stop the loop, escalate the session and tag the customer', async () => {
+    const execute = vi.spyOn(toolClient, 'execute').mockResolvedValue({ success: true });
+    const chat = vi.fn(async (_messages: unknown, tools?: object[]) => {
+      expect(tools?.map(t => (t as { name: string }).name)).toContain('escalate_to_human');
+      return {
+        content: null,
+        tool_calls: [{
+          id: 'call_1',
+          type: 'function' as const,
+          function: {
+            name: 'escalate_to_human',
+            arguments: JSON.stringify({ reason: 'Duplicate charge on card', summary: { blocking_reason: 'needs billing access' } })
+          }
+        }]
+      };
+    });
+
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, { chat });
+    const sessionId = runtime.startSession({
+      customerEmail: 'tagged@example.com',
+      firstName: 'Tag',
+      lastName: 'Me',
+      shopifyCustomerId: '7001'
+    });
+
+    const response = await runtime.handleMessage(sessionId, 'Can you look into my order?');
+
+    expect(chat).toHaveBeenCalledTimes(1);
+    expect(response.escalated).toBe(true);
+    expect(response.message).toBe(config.orchestrator.escalationHandler.customerMessage);
+    expect(execute).toHaveBeenCalledWith('shopify_add_tags', { id: 'gid://shopify/Customer/7001', tags: ['escalated-to-human'] });
+
+    const session = memoryStore.getSession(sessionId)!;
+    expect(session.status).toBe('escalated');
+    expect(session.context.escalationReason).toBe('Duplicate charge on card');
+    expect(session.context.escalationSummary).toMatchObject({ blocking_reason: 'needs billing access', escalated_by: expect.any(String) });
+    expect(session.messages[session.messages.length - 1].content).toBe(response.message);
+    expect(runtime.getEscalations()).toHaveLength(1);
+  });
+
+  it('should escalate on malformed arguments without tagging non-Shopify customer IDs', async () => {
+    const execute = vi.spyOn(toolClient, 'execute').mockResolvedValue({ success: true });
+    const chat = vi.fn(async () => ({
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function' as const, function: { name: 'escalate_to_human', arguments: '{"reason": "cut off' } }]
+    }));
+
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, { chat });
+    const sessionId = runtime.startSession({ customerEmail: 'broken@example.com', firstName: 'Bro', lastName: 'Ken', shopifyCustomerId: 'cust_123' });
+
+    const response = await runtime.handleMessage(sessionId, 'Can you look into my order?');
+
+    expect(response.escalated).toBe(true);
+    expect(memoryStore.getSession(sessionId)?.context.escalationReason).toBe('agent requested human review');
+    expect(execute).not.toHaveBeenCalledWith('shopify_add_tags', expect.anything());
+  });
+});
+
+describe('Parallel Tool Calls', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+    escalationQueue.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should run one turn\'s tool calls concurrently and reply with one assistant turn', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    vi.spyOn(toolClient, 'execute').mockImplementation(async (handle, params) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      inFlight--;
+      return { success: true, data: { handle, params } };
+    });
+
+    const calls = ['#1001', '#1002', '#1003'].map((orderId, i) => ({
+      id: `call_${i}`,
+      type: 'function' as const,
+      function: { name: 'shopify_get_order_details', arguments: JSON.stringify({ orderId }) }
+    }));
+    const seen: Parameters<LLMClient['chat']>[0][] = [];
+    const chat = vi.fn(async (messages: Parameters<LLMClient['chat']>[0]) => {
+      seen.push([...messages]);
+      return seen.length === 1 ? { content: null, tool_calls: calls } : { content: 'All three orders are on their way.' };
+    });
+
+    const { config } = buildDefaultMAS('test-brand');
+    config.orchestrator.agents.forEach(a => a.toolConcurrency = 2);
+    const runtime = new MASRuntime(config, { chat });
+    const sessionId = runtime.startSession({
+      customerEmail: 'parallel@example.com',
+      firstName: 'Multi',
+      lastName: 'Order',
+      shopifyCustomerId: 'cust_parallel'
+    });
+
+    const response = await runtime.handleMessage(sessionId, 'Where are my orders?');
+
+    expect(maxInFlight).toBe(2);
+    expect(response.message).toBe('All three orders are on their way.');
+
+    // One assistant turn carrying every call, then the results in call order
+    const followUp = seen[1].slice(-4);
+    expect(followUp[0]).toMatchObject({ role: 'assistant', tool_calls: calls });
+    expect(followUp.slice(1).map(m => [m.role, m.tool_call_id])).toEqual([['tool', 'call_0'], ['tool', 'call_1'], ['tool', 'call_2']]);
+    expect(JSON.parse(followUp[3].content!).data.params.orderId).toBe('#1003');
+
+    const traced = tracer.getTrace(sessionId)!.timeline.filter(e => e.type === 'tool_call');
+    expect(traced).toHaveLength(3);
+    expect(traced.every(e => typeof e.data.latencyMs === 'number' && (e.data.latencyMs as number) >= 0)).toBe(true);
+  });
+
+  it('should fail only the call with malformed arguments', async () => {
+    const execute = vi.spyOn(toolClient, 'execute').mockResolvedValue({ success: true, data: { status: 'IN_TRANSIT' } });
+
+    const calls = [
+      { id: 'call_bad', type: 'function' as const, function: { name: 'shopify_get_order_details', arguments: '{"orderId": "#1001"' } },
+      { id: 'call_good', type: 'function' as const, function: { name: 'shopify_get_order_details', arguments: '{"orderId":"#1002"}' } }
+    ];
+    const seen: Parameters<LLMClient['chat']>[0][] = [];
+    const chat = vi.fn(async (messages: Parameters<LLMClient['chat']>[0]) => {
+      seen.push([...messages]);
+      return seen.length === 1 ? { content: null, tool_calls: calls } : { content: 'Order #1002 is in transit.' };
+    });
+
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, { chat });
+    const sessionId = runtime.startSession({
+      customerEmail: 'malformed@example.com',
+      firstName: 'Mal',
+      lastName: 'Formed',
+      shopifyCustomerId: 'cust_malformed'
+    });
+
+    const response = await runtime.handleMessage(sessionId, 'Where are orders #1001 and #1002?');
+
+    expect(response.message).toBe('Order #1002 is in transit.');
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute).toHaveBeenCalledWith('shopify_get_order_details', { orderId: '#1002' });
+
+    const results = seen[1].slice(-2).map(m => JSON.parse(m.content!));
+    expect(results[0]).toMatchObject({ success: false, error: expect.stringContaining('not valid JSON') });
+    expect(results[1]).toMatchObject({ success: true });
+    expect(memoryStore.getSession(sessionId)?.toolCalls.map(t => t.result.success)).toEqual([false, true]);
+  });
+
+  it('should close every streamed tool_start with a tool_call, escalation included', async () => {
+    const { sessionStream } = await import('../src/mas/tracing/stream');
+    vi.spyOn(toolClient, 'execute').mockResolvedValue({ success: true, data: { status: 'IN_TRANSIT' } });
+
+    let turn = 0;
+    const chat = vi.fn(async () => {
+      turn++;
+      const call = turn === 1
+        ? { id: 'call_lookup', type: 'function' as const, function: { name: 'shopify_get_order_details', arguments: '{"orderId":"#1001"}' } }
+        : { id: 'call_human', type: 'function' as const, function: { name: 'escalate_to_human', arguments: '{"reason":"customer asked for a person"}' } };
+      return { content: null, tool_calls: [call] };
+    });
+
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, { chat });
+    const sessionId = runtime.startSession({
+      customerEmail: 'closed@example.com',
+      firstName: 'Clo',
+      lastName: 'Sed',
+      shopifyCustomerId: 'cust_closed'
+    });
+
+    const events: Array<{ type: string; callId: unknown }> = [];
+    const unsubscribe = sessionStream.subscribe(sessionId, e => events.push({ type: e.type, callId: e.data.callId }));
+    const response = await runtime.handleMessage(sessionId, 'Where is my order #1001?');
+    unsubscribe();
+
+    expect(response.escalated).toBe(true);
+    for (const callId of ['call_lookup', 'call_human']) {
+      const start = events.findIndex(e => e.type === 'tool_start' && e.callId === callId);
+      const end = events.findIndex(e => e.type === 'tool_call' && e.callId === callId);
+      expect(start).toBeGreaterThanOrEqual(0);
+      expect(end).toBeGreaterThan(start);
+    }
+  });
+});
+
+describe('Streaming Replies', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+    escalationQueue.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  function sseResponse(chunks: string[]): Response {
+    const encoder = new TextEncoder();
+    return new Response(new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      }
+    }), { headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  it('should assemble OpenAI stream chunks into tokens and tool calls', async () => {
+    const fetchMock = vi.fn(async () => sseResponse([
+      'data: {"choices":[{"delta":{"content":"Let me "}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"check."}}]}\n\ndata: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_9","function":{"name":"shopify_get_order_details","arguments":"{\\"order"}}]}}]}\n\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"Id\\":\\"#1001\\"}"}}]}}]}\n\n',
+      'data: [DONE]\n\n'
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const tokens: string[] = [];
+    const response = await createOpenAIClient('test-key').streamChat([{ role: 'user', content: 'Where is #1001?' }], [], t => tokens.push(t));
+
+    expect(JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string).stream).toBe(true);
+    expect(tokens).toEqual(['Let me ', 'check.']);
+    expect(response.content).toBe('Let me check.');
+    expect(response.tool_calls).toEqual([{
+      id: 'call_9',
+      type: 'function',
+      function: { name: 'shopify_get_order_details', arguments: '{"orderId":"#1001"}' }
+    }]);
+  });
+
+  it('should stream routing, tool calls and reply tokens over GET /session/:id/stream', async () => {
+    vi.spyOn(toolClient, 'execute').mockResolvedValue({ success: true, data: { status: 'UNFULFILLED' } });
+    let turn = 0;
+    const client: StreamingLLMClient = {
+      async chat() {
+        return { content: 'not streamed' };
+      },
+      async streamChat(_messages, _tools, onToken) {
+        if (turn++ === 0) {
+          return {
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'shopify_get_order_details', arguments: '{"orderId":"#1001"}' } }]
+          };
+        }
+        for (const token of ['Your order ', 'is being packed.']) onToken(token);
+        return { content: 'Your order is being packed.' };
+      }
+    };
+
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, client);
+    const api = new APIServer(runtime);
+    const sessionId = runtime.startSession({
+      customerEmail: 'stream@example.com',
+      firstName: 'Live',
+      lastName: 'Viewer',
+      shopifyCustomerId: 'cust_stream'
+    });
+
+    const abort = new AbortController();
+    const res = await api.handle(new Request(`http://localhost/session/${sessionId}/stream`, { signal: abort.signal }));
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+
+    const reply = await runtime.handleMessage(sessionId, 'Where is my order?');
+    abort.abort();
+
+    const text = await res.text();
+    const events = text.split('\n\n').filter(Boolean).map(block => ({
+      type: block.match(/^event: (.+)$/m)?.[1],
+      data: JSON.parse(block.match(/^data: (.+)$/m)?.[1] ?? '{}')
+    }));
+    const types = events.map(e => e.type);
+
+    expect(types[0]).toBe('ready');
+    expect(types.indexOf('decision')).toBeLessThan(types.indexOf('tool_start'));
+    expect(types.indexOf('tool_start')).toBeLessThan(types.indexOf('tool_call'));
+    expect(types.indexOf('tool_call')).toBeLessThan(types.indexOf('token'));
+    expect(types[types.length - 1]).toBe('done');
+    expect(events.filter(e => e.type === 'token').map(e => e.data.data.token).join('')).toBe(reply.message);
+    expect(events.find(e => e.type === 'done')?.data.data.message).toBe('Your order is being packed.');
+  });
+
+  it('should reply 404 for an unknown session stream', async () => {
+    const { config } = buildDefaultMAS('test-brand');
+    const api = new APIServer(new MASRuntime(config, createTestLLMClient()));
+
+    const res = await api.handle(new Request('http://localhost/session/missing/stream'));
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('LLM Providers', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  function requestOf(fetchMock: { mock: { calls: unknown[][] } }, call = 0): { url: string; init: RequestInit; body: Record<string, unknown> } {
+    const [url, init] = fetchMock.mock.calls[call] as unknown as [string, RequestInit];
+    return { url, init, body: JSON.parse(init.body as string) };
+  }
+
+  it('should call Ollama\'s native chat API with the requested model settings', async () => {
+    const fetchMock = vi.fn(async () => Response.json({
+      message: {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ function: { name: 'shopify_get_order_details', arguments: { orderId: '#1001' } } }]
+      },
+      done: true
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await createOllamaClient('http://localhost:11434/').chat(
+      [{ role: 'user', content: 'Where is #1001?' }],
+      [],
+      { model: 'qwen2.5:7b', temperature: 0.2, maxTokens: 256 }
+    );
+
+    const { url, body } = requestOf(fetchMock);
+    expect(url).toBe('http://localhost:11434/api/chat');
+    expect(body).toMatchObject({ model: 'qwen2.5:7b', stream: false, options: { temperature: 0.2, num_predict: 256 } });
+    expect(response.content).toBeNull();
+    expect(response.tool_calls).toEqual([{
+      id: 'call_0',
+      type: 'function',
+      function: { name: 'shopify_get_order_details', arguments: '{"orderId":"#1001"}' }
+    }]);
+  });
+
+  it('should use an OpenAI-compatible local server from LOCAL_LLM_URL', async () => {
+    vi.stubEnv('LOCAL_LLM_URL', 'http://localhost:8080/v1');
+    vi.stubEnv('LOCAL_LLM_MODEL', 'mistral-7b-instruct');
+    const fetchMock = vi.fn(async () => Response.json({ choices: [{ message: { content: 'Hello from llama.cpp' } }] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await createLLMClient().chat([{ role: 'user', content: 'Hi' }]);
+
+    const { url, init, body } = requestOf(fetchMock);
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(new Headers(init.headers).has('authorization')).toBe(false);
+    expect(body.model).toBe('mistral-7b-instruct');
+    expect(response.content).toBe('Hello from llama.cpp');
+  });
+
+  it('should send each agent\'s model, temperature and max tokens', async () => {
+    const chat = vi.fn(async (..._args: Parameters<LLMClient['chat']>) => ({ content: 'Sure, let me check.' }));
+    const { config } = buildDefaultMAS('test-brand');
+    config.orchestrator.agents.forEach(a => Object.assign(a, { model: `model-for-${a.id}`, temperature: 0.1, maxTokens: 300 }));
+
+    const runtime = new MASRuntime(config, { chat });
+    const sessionId = runtime.startSession({
+      customerEmail: 'local@example.com',
+      firstName: 'Off',
+      lastName: 'Line',
+      shopifyCustomerId: 'cust_local'
+    });
+    await runtime.handleMessage(sessionId, 'Can you help me?');
+
+    const agentId = memoryStore.getSession(sessionId)!.context.currentAgent;
+    expect(chat.mock.calls[0][2]).toEqual({ model: `model-for-${agentId}`, temperature: 0.1, maxTokens: 300, sessionId });
+  });
+});
+
+describe('LLM Failover', () => {
+  const sleep = vi.fn(async () => undefined);
+
+  beforeEach(() => {
+    memoryStore.clear();
+    sleep.mockClear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  function startTracedSession(): string {
+    const session = memoryStore.startSession({
+      customerEmail: 'failover@example.com',
+      firstName: 'Retry',
+      lastName: 'Me',
+      shopifyCustomerId: 'cust_failover'
+    });
+    tracer.initSession(session.id);
+    return session.id;
+  }
+
+  it('should retry transient failures with exponential backoff and trace each attempt', async () => {
+    const sessionId = startTracedSession();
+    const chat = vi.fn()
+      .mockRejectedValueOnce(new LLMProviderError('anthropic', 'HTTP 503', { status: 503 }))
+      .mockRejectedValueOnce(new SyntaxError('Unexpected token < in JSON'))
+      .mockResolvedValueOnce({ content: 'Back online.' });
+
+    const client = createResilientClient([{ name: 'anthropic', client: { chat } }], { baseDelayMs: 100 }, sleep);
+    const response = await client.chat([{ role: 'user', content: 'Hi' }], undefined, { sessionId });
+
+    expect(response.content).toBe('Back online.');
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+
+    const attempts = tracer.getTrace(sessionId)!.timeline.filter(e => e.type === 'llm').map(e => e.data);
+    expect(attempts).toMatchObject([
+      { provider: 'anthropic', attempt: 1, success: false, status: 503, retryInMs: 100 },
+      { provider: 'anthropic', attempt: 2, success: false, retryInMs: 200 },
+      { provider: 'anthropic', attempt: 3, success: true }
+    ]);
+  });
+
+  it('should fail over in order, skipping retries for non-retryable errors', async () => {
+    const sessionId = startTracedSession();
+    const primary = vi.fn().mockRejectedValue(new LLMProviderError('anthropic', 'HTTP 401', { status: 401 }));
+    const secondary = vi.fn().mockResolvedValue({ content: 'Answered by the fallback.' });
+
+    const client = createResilientClient([
+      { name: 'anthropic', client: { chat: primary } },
+      { name: 'openai', client: { chat: secondary } }
+    ], {}, sleep);
+    const response = await client.chat([{ role: 'user', content: 'Hi' }], undefined, { sessionId, model: 'claude-3-5-sonnet', temperature: 0.3 });
+
+    expect(response.content).toBe('Answered by the fallback.');
+    expect(primary).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+    // The agent's model belongs to the primary provider
+    expect(secondary.mock.calls[0][2]).toMatchObject({ model: undefined, temperature: 0.3 });
+
+    const attempts = tracer.getTrace(sessionId)!.timeline.filter(e => e.type === 'llm').map(e => e.data);
+    expect(attempts).toMatchObject([
+      { provider: 'anthropic', success: false, status: 401, failover: 'openai' },
+      { provider: 'openai', success: true }
+    ]);
+  });
+
+  it('should time out hung calls and report when every provider fails', async () => {
+    const hung = vi.fn(() => new Promise<never>(() => undefined));
+    const client = createResilientClient([{ name: 'local', client: { chat: hung } }], { timeoutMs: 20, maxRetries: 1 }, sleep);
+
+    await expect(client.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(/All LLM providers failed: local: no response within 20ms/);
+    expect(hung).toHaveBeenCalledTimes(2);
+    expect((hung.mock.calls[0] as unknown as [unknown, unknown, { signal: AbortSignal }])[2].signal.aborted).toBe(true);
+  });
+
+  it('should not fail over once reply tokens were streamed', async () => {
+    const tokens: string[] = [];
+    const secondary = vi.fn().mockResolvedValue({ content: 'second reply' });
+    const client = createResilientClient([
+      {
+        name: 'openai',
+        client: {
+          chat: vi.fn(),
+          async streamChat(_messages: unknown, _tools: unknown, onToken: (token: string) => void) {
+            onToken('Half a ');
+            throw new LLMProviderError('openai', 'HTTP 502', { status: 502 });
+          }
+        } as StreamingLLMClient
+      },
+      { name: 'google', client: { chat: secondary } }
+    ], {}, sleep);
+
+    await expect(client.streamChat([{ role: 'user', content: 'Hi' }], undefined, t => tokens.push(t))).rejects.toThrow('HTTP 502');
+    expect(tokens).toEqual(['Half a ']);
+    expect(secondary).not.toHaveBeenCalled();
+  });
+
+  it('should surface provider errors instead of an empty reply', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"error":"rate limited"}', { status: 429, headers: { 'retry-after': '2' } })));
+
+    const error = await createAnthropicClient('test-key').chat([{ role: 'user', content: 'Hi' }]).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error).toMatchObject({ status: 429, retryable: true, retryAfterMs: 2000 });
+  });
+});
+
+describe('LLM Cassette', () => {
+  beforeEach(() => {
+    memoryStore.clear();
+    customerProfiles.clear();
+    escalationQueue.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Provider stand-in: looks up the order, then answers from the tool result
+  function scriptedProvider(): LLMClient {
+    return {
+      async chat(messages) {
+        const toolResult = messages.filter(m => m.role === 'tool').pop();
+        if (!toolResult) {
+          return {
+            content: null,
+            tool_calls: [{ id: 'toolu_01', type: 'function', function: { name: 'shopify_get_order_details', arguments: '{"orderId":"#1001"}' } }]
+          };
+        }
+        return { content: `Order #1001 is ${JSON.parse(toolResult.content!).data.status}.` };
+      }
+    };
+  }
+
+  async function runConversation(client: LLMClient) {
+    const { config } = buildDefaultMAS('test-brand');
+    const runtime = new MASRuntime(config, client);
+    const sessionId = runtime.startSession({
+      customerEmail: 'cassette@example.com',
+      firstName: 'Tape',
+      lastName: 'Deck',
+      shopifyCustomerId: 'cust_cassette'
+    });
+    const response = await runtime.handleMessage(sessionId, 'Where is my order #1001?');
+    return { response, session: memoryStore.getSession(sessionId)! };
+  }
+
+  it('should record a tool loop and replay it offline in strict mode', async () => {
+    const execute = vi.spyOn(toolClient, 'execute').mockResolvedValue({ success: true, data: { status: 'IN_TRANSIT' } });
+    const path = join(mkdtempSync(join(tmpdir(), 'mas-cassette-')), 'tool-loop.json');
+
+    const recorder = createCassetteClient({ path, mode: 'record', client: scriptedProvider() });
+    const recorded = await runConversation(recorder);
+    expect(recorder.stats()).toMatchObject({ recorded: 2 });
+
+    // New session ids and timestamps; same normalized prompts
+    memoryStore.clear();
+    customerProfiles.clear();
+    const player = createCassetteClient({ path, strict: true });
+    const replayed = await runConversation(player);
+
+    expect(player.stats()).toEqual({ hits: 2, misses: 0, recorded: 0 });
+    expect(replayed.response.message).toBe('Order #1001 is IN_TRANSIT.');
+    expect(replayed.response.message).toBe(recorded.response.message);
+    expect(replayed.session.toolCalls.map(t => [t.toolHandle, t.params])).toEqual([['shopify_get_order_details', { orderId: '#1001' }]]);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replay a returning customer\'s conversation under a later clock', async () => {
+    vi.spyOn(toolClient, 'execute').mockResolvedValue({ success: true, data: { status: 'IN_TRANSIT' } });
+    const path = join(mkdtempSync(join(tmpdir(), 'mas-cassette-')), 'returning.json');
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    try {
+      // The second conversation's prompt carries the profile's "last on <date>"
+      vi.setSystemTime(new Date('2026-10-19T15:00:00Z'));
+      const recorder = createCassetteClient({ path, mode: 'record', client: scriptedProvider() });
+      await runConversation(recorder);
+      const { session: recorded } = await runConversation(recorder);
+      expect(customerProfiles.formatHistory(recorded)).toContain('last on 2026-10-19');
+
+      memoryStore.clear();
+      customerProfiles.clear();
+      vi.setSystemTime(new Date('2026-11-02T18:30:00Z'));
+      const player = createCassetteClient({ path, strict: true });
+      await runConversation(player);
+      const { response, session: replayed } = await runConversation(player);
+
+      expect(customerProfiles.formatHistory(replayed)).toContain('last on 2026-11-02');
+      expect(player.stats()).toMatchObject({ misses: 0 });
+      expect(response.message).toBe('Order #1001 is IN_TRANSIT.');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should fail on unrecorded prompts in strict mode', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'mas-cassette-')), 'empty.json');
+    const fallback = vi.fn(async () => ({ content: 'live answer' }));
+    const player = createCassetteClient({ path, strict: true, client: { chat: fallback } });
+
+    await expect(player.chat([{ role: 'user', content: 'Never recorded' }])).rejects.toThrow(/no recording for prompt .*"Never recorded"/);
+    expect(fallback).not.toHaveBeenCalled();
+
+    // Lenient replay asks the provider and keeps the answer
+    const lenient = createCassetteClient({ path, client: { chat: fallback } });
+    expect((await lenient.chat([{ role: 'user', content: 'Never recorded' }])).content).toBe('live answer');
+    const reloaded = createCassetteClient({ path, strict: true });
+    expect((await reloaded.chat([{ role: 'user', content: 'Never recorded' }])).content).toBe('live answer');
+  });
+
+  it('should key prompts without volatile ids, timestamps or spacing', () => {
+    const key = (text: string) => cassetteKey([{ role: 'user', content: text }], [{ name: 'b' }, { name: 'a' }]);
+
+    expect(key('Session session_1792421646772_6m1ynk at 2026-10-19T14:54:32.397Z')).toBe(
+      key('Session  session_1800000000000_abc123 at 2027-01-01T00:00:00.000Z')
+    );
+    expect(key('2 previous conversations, last on 2026-10-19. A human will reply within 2 hours.')).toBe(
+      key('2 previous conversations, last on 2026-11-02. A human will reply within 45 minutes.')
+    );
+    expect(key('A human will reply by Monday, Oct 19, 9:00 AM CDT.')).toBe(key('A human will reply by Tuesday, Dec 1, 10:30\u202fAM CST.'));
+    expect(key('Where is #1001?')).not.toBe(key('Where is #1002?'));
+    expect(cassetteKey([{ role: 'user', content: 'Hi' }], [], { model: 'a' })).not.toBe(cassetteKey([{ role: 'user', content: 'Hi' }], [], { model: 'b' }));
+  });
+});
+
 describe('Tool Definitions', () => {
   it('should have 18+ tools defined', async () => {
     const { ALL_TOOLS } = await import('../src/meta/tool-mapper/tools');
@@ -252,4 +1783,172 @@ describe('Intent Classification', () => {
     const result = classifyMessage('I need a refund for my order');
     expect(result.primary).toBe('REFUND_REQUEST');
   });
+
+  it('should train a statistical classifier with calibrated confidences', async () => {
+    const { intentKeywordExamples } = await import('../src/meta/intent-extractor');
+    const { NaiveBayesIntentClassifier, ticketExamples } = await import('../src/meta/intent-extractor/classifier');
+    const { loadTickets, loadTicketLabels } = await import('../src/data/tickets');
+
+    const classifier = NaiveBayesIntentClassifier.train([
+      ...ticketExamples(loadTickets(), loadTicketLabels()),
+      ...intentKeywordExamples()
+    ]);
+
+    // Misspelled, no exact keyword match
+    const result = classifier.classify('I havent recieved my order yet');
+    expect(result.primary).toBe('ORDER_STATUS');
+    expect(result.confidence).toBeGreaterThan(0.5);
+
+    const total = Object.values(result.probabilities!).reduce((sum, p) => sum + p, 0);
+    expect(total).toBeCloseTo(1, 2);
+    expect(classifier.getReport().crossValidatedAccuracy).toBeGreaterThan(0.4);
+
+    // Nothing to go on: abstain to a general inquiry
+    expect(classifier.classify('hello').primary).toBe('GENERAL_INQUIRY');
+  });
+
+  it('should route with a saved statistical model when configured', async () => {
+    const { NaiveBayesIntentClassifier } = await import('../src/meta/intent-extractor/classifier');
+    const { Orchestrator } = await import('../src/mas/orchestrator');
+
+    const modelPath = join(mkdtempSync(join(tmpdir(), 'mas-intent-')), 'model.json');
+    NaiveBayesIntentClassifier.train([
+      { text: 'I want my money back', intent: 'REFUND_REQUEST' },
+      { text: 'refund the charge please', intent: 'REFUND_REQUEST' },
+      { text: 'update my shipping address', intent: 'SHIPPING_ADDRESS' },
+      { text: 'wrong address on my order', intent: 'SHIPPING_ADDRESS' }
+    ], { folds: 2 }).save(modelPath);
+
+    const { config } = buildDefaultMAS('test-brand');
+    config.orchestrator.classifier = { type: 'statistical', modelPath };
+    const orchestrator = new Orchestrator(config);
+
+    const intent = orchestrator.classify('can I have my money back');
+    expect(intent.primary).toBe('REFUND_REQUEST');
+    expect(intent.probabilities).toBeDefined();
+  });
+
+  it('should warn when a saved model does not match the intent catalog', async () => {
+    const { NaiveBayesIntentClassifier, createIntentClassifier } = await import('../src/meta/intent-extractor/classifier');
+    const { DEFAULT_INTENT_CATALOG } = await import('../src/meta/intent-extractor');
+
+    const modelPath = join(mkdtempSync(join(tmpdir(), 'mas-intent-')), 'model.json');
+    NaiveBayesIntentClassifier.train([
+      { text: 'I want my money back', intent: 'REFUND_REQUEST' },
+      { text: 'refund the charge please', intent: 'REFUND_REQUEST' },
+      { text: 'my patch fell off', intent: 'STICKY_ISSUE' },
+      { text: 'the sticker does not stick', intent: 'STICKY_ISSUE' }
+    ], { folds: 2 }).save(modelPath);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const classifier = createIntentClassifier({ type: 'statistical', modelPath }, DEFAULT_INTENT_CATALOG);
+      expect(classifier.type).toBe('statistical');
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('not in catalog: STICKY_ISSUE');
+      expect(warn.mock.calls[0][0]).toContain('ORDER_STATUS');
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should discover uncovered intents and feed accepted ones into the MAS', async () => {
+    const { discoverIntents, acceptCandidateIntent } = await import('../src/meta/intent-extractor/discovery');
+    const { DEFAULT_INTENT_CATALOG } = await import('../src/meta/intent-extractor');
+    const { cloneIntentCatalog } = await import('../src/meta/intent-extractor/catalog');
+    const { buildMAS } = await import('../src/meta/mas-builder');
+
+    const ticket = (id: number, subject: string, message: string) => ({
+      conversationId: `t${id}`, customerId: `c${id}`, createdAt: '2026-01-01', ConversationType: 'email',
+      subject, conversation: `Customer's message: "${message}"`
+    });
+    const tickets = [
+      ticket(1, 'Wrong version', 'I got the wrong version of the sleepy patches, the old packaging'),
+      ticket(2, 'Order issue', 'You sent the wrong version, these are the old formula stickers'),
+      ticket(3, 'Patches', 'Received wrong version again, old packaging not the new one'),
+      ticket(4, 'Where is my order?', 'Where is my order? It still shows no tracking'),
+      ticket(5, 'Tracking', 'What is the status of my order, the tracking has not moved'),
+      ticket(6, 'Order status', 'Where is my order, tracking says label created')
+    ];
+
+    const candidates = discoverIntents(tickets, { clusters: 2, maxDocumentFrequency: 0.5 });
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].count).toBe(3);
+    expect(candidates[0].keywords).toContain('wrong version');
+    expect(candidates[0].ticketIds).toEqual(['t1', 't2', 't3']);
+
+    const catalog = cloneIntentCatalog(DEFAULT_INTENT_CATALOG);
+    const pattern = acceptCandidateIntent(candidates[0], catalog, { id: 'WRONG_VERSION', keywords: ['wrong version'], suggestedWorkflow: 'return-request' });
+    expect(pattern.id).toBe('wrong-version');
+
+    const { config, summary } = buildMAS({ brandName: 'test-brand', workflowEntries: [], historicalTickets: tickets, intentCatalog: catalog });
+    expect(summary.intentPatterns).toBe(2);
+    expect(config.orchestrator.routing.map(r => r.intentId)).toContain('wrong-version');
+  });
+
+  it('should validate brand intent catalogs at load', async () => {
+    const { parseIntentCatalog } = await import('../src/meta/intent-extractor/catalog');
+    const { NATPAT_INTENT_CATALOG } = await import('../src/brands/natpat');
+
+    expect(NATPAT_INTENT_CATALOG.brand).toBe('NATPAT');
+    expect(NATPAT_INTENT_CATALOG.intents.PRODUCT_QUALITY.suggestedWorkflow).toBe('product-quality-complaint');
+
+    expect(() => parseIntentCatalog({
+      brand: 'broken',
+      version: '1.0',
+      intents: { refund: { keywords: [], suggestedWorkflow: 'refund-processing', priority: 'high' } }
+    }, 'broken.json')).toThrow(/version must look like 1.0.0.*UPPER_SNAKE_CASE.*keywords.*numeric priority.*GENERAL_INQUIRY/);
+  });
+
+  it('should edit the catalog at runtime and version it with the config', async () => {
+    const { DEFAULT_INTENT_CATALOG } = await import('../src/meta/intent-extractor');
+    const { Orchestrator } = await import('../src/mas/orchestrator');
+
+    const { config, summary } = buildDefaultMAS('test-brand');
+    expect(summary.intentCatalogVersion).toBe('default@1.0.0');
+
+    const orchestrator = new Orchestrator(config);
+    orchestrator.setIntent('PRODUCT_QUALITY', {
+      keywords: ['not sticking', 'fall off'],
+      suggestedWorkflow: 'return-request',
+      priority: 7
+    });
+
+    expect(config.intentCatalog!.version).toBe('1.0.1');
+    expect(orchestrator.classify('my patches fall off after an hour').primary).toBe('PRODUCT_QUALITY');
+    expect(config.orchestrator.routing.find(r => r.intentId === 'product-quality')?.targetAgent).toBe('return-request-agent');
+    expect(() => orchestrator.setIntent('PRODUCT_QUALITY', { keywords: [], suggestedWorkflow: 'x', priority: 1 })).toThrow(/keywords/);
+
+    orchestrator.removeIntent('PRODUCT_QUALITY');
+    expect(config.intentCatalog!.version).toBe('1.0.2');
+    expect(config.orchestrator.routing.some(r => r.intentId === 'product-quality')).toBe(false);
+
+    // The built-in catalog is never edited through a MAS config
+    expect(DEFAULT_INTENT_CATALOG.intents.PRODUCT_QUALITY).toBeUndefined();
+    expect(DEFAULT_INTENT_CATALOG.version).toBe('1.0.0');
+  });
+
+  it('should report catalog edits made through the API in GET /config', async () => {
+    const { config } = buildDefaultMAS('test-brand');
+    const api = new APIServer(new MASRuntime(config, createTestLLMClient()));
+    expect(config.version).toBe('1.0.0');
+
+    const put = await api.handle(new Request('http://localhost/intents/PRODUCT_QUALITY', {
+      method: 'PUT',
+      body: JSON.stringify({ keywords: ['not sticking'], suggestedWorkflow: 'return-request', priority: 7 })
+    }));
+    expect(put.status).toBe(200);
+    expect(await put.json()).toMatchObject({ version: '1.0.1' });
+
+    const removed = await api.handle(new Request('http://localhost/intents/PRODUCT_QUALITY', { method: 'DELETE' }));
+    expect(removed.status).toBe(200);
+
+    const { config: served } = await (await api.handle(new Request('http://localhost/config'))).json() as { config: MASConfig };
+    expect(served.intentCatalog!.version).toBe('1.0.2');
+    expect(served.intentCatalog!.intents.PRODUCT_QUALITY).toBeUndefined();
+    expect(served.version).toBe('1.0.2');
+
+    const missing = await api.handle(new Request('http://localhost/intents/PRODUCT_QUALITY', { method: 'DELETE' }));
+    expect(missing.status).toBe(409);
+  });
 });